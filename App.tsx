@@ -10,8 +10,15 @@ import {
   ResponsiveContainer,
   AreaChart,
   Area,
-  ComposedChart
+  ComposedChart,
+  BarChart,
+  Bar,
+  ReferenceArea,
+  ReferenceLine,
+  Brush,
+  Cell
 } from 'recharts';
+import type { MouseHandlerDataParam } from 'recharts';
 import {
   Settings,
   Activity,
@@ -24,326 +31,72 @@ import {
   Minus,
   AlertTriangle,
   Sliders,
-  Github
+  Github,
+  Layers,
+  Play,
+  Loader2,
+  X,
+  Plus,
+  Database,
+  Upload,
+  Download,
+  FileJson,
+  FolderOpen,
+  Link2,
+  Check,
+  ChevronDown,
+  ChevronUp,
+  GitCompare,
+  Copy,
+  Route
 } from 'lucide-react';
-
-// --- 1. Types & Interfaces ---
-
-type ModelType = 'GBM' | 'OU' | 'JUMP';
-type RebalanceType = 'threshold' | 'time';
-type AllocationMode = 'fixed' | 'rsi' | 'adx';
-
-interface MarketConfig {
-  initialPrice: number;
-  days: number;
-  type: ModelType;
-  drift: number;
-  volatility: number;
-  meanReversionSpeed: number;
-  longTermMean: number;
-  jumpIntensity: number;
-  jumpMean: number;
-  jumpStdDev: number;
-}
-
-interface StrategyConfig {
-  initialCapital: number;
-  allocationMode: AllocationMode;
-  targetAllocation: number;
-  minAllocation: number;
-  maxAllocation: number;
-  indicatorPeriod: number;
-  adxThreshold: number;
-  rebalanceType: RebalanceType;
-  rebalanceThreshold: number;
-  rebalanceFrequency: number;
-  transactionFeeRate: number;
-}
-
-interface StepData {
-  day: number;
-  price: number;
-  hodlValue: number;
-  strategyValue: number;
-  strategyCash: number;
-  strategyAssetValue: number;
-  allocation: number;
-  targetAllocation: number;
-  rsi?: number;
-  adx?: number;
-  action: 'buy' | 'sell' | 'hold';
-  tradeAmount?: number;
-}
-
-interface SimulationResult {
-  data: StepData[];
-  totalRebalances: number;
-  totalFees: number;
-  hodlReturn: number;
-  strategyReturn: number;
-  maxDrawdownHodl: number;
-  maxDrawdownStrategy: number;
-}
-
-// --- 2. Math & Generator Functions (Pure JS, Client-Side) ---
-
-const generateGaussian = (mean: number, stdDev: number): number => {
-  let u = 0, v = 0;
-  while (u === 0) u = Math.random();
-  while (v === 0) v = Math.random();
-  const z = Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
-  return z * stdDev + mean;
-};
-
-const generateGBM = (config: MarketConfig): number[] => {
-  const dt = 1 / 252;
-  const prices = [config.initialPrice];
-  for (let i = 1; i <= config.days; i++) {
-    const prevPrice = prices[i - 1];
-    const shock = generateGaussian(0, 1);
-    const driftComponent = (config.drift - 0.5 * Math.pow(config.volatility, 2)) * dt;
-    const diffusionComponent = config.volatility * Math.sqrt(dt) * shock;
-    const nextPrice = prevPrice * Math.exp(driftComponent + diffusionComponent);
-    prices.push(nextPrice);
-  }
-  return prices;
-};
-
-const generateOU = (config: MarketConfig): number[] => {
-  const dt = 1 / 252;
-  const prices = [config.initialPrice];
-  let currentLogPrice = Math.log(config.initialPrice);
-  const targetLogPrice = Math.log(config.longTermMean);
-  for (let i = 1; i <= config.days; i++) {
-    const shock = generateGaussian(0, 1);
-    const dX = config.meanReversionSpeed * (targetLogPrice - currentLogPrice) * dt + config.volatility * Math.sqrt(dt) * shock;
-    currentLogPrice += dX;
-    prices.push(Math.exp(currentLogPrice));
-  }
-  return prices;
-};
-
-const generateJump = (config: MarketConfig): number[] => {
-  const dt = 1 / 252;
-  const prices = [config.initialPrice];
-  for (let i = 1; i <= config.days; i++) {
-    const prevPrice = prices[i - 1];
-    const shock = generateGaussian(0, 1);
-    const driftComponent = (config.drift - 0.5 * Math.pow(config.volatility, 2)) * dt;
-    const diffusionComponent = config.volatility * Math.sqrt(dt) * shock;
-    let jumpComponent = 0;
-    if (Math.random() < config.jumpIntensity * dt) {
-      jumpComponent = generateGaussian(config.jumpMean, config.jumpStdDev);
-    }
-    const nextPrice = prevPrice * Math.exp(driftComponent + diffusionComponent + jumpComponent);
-    prices.push(nextPrice);
-  }
-  return prices;
-};
-
-const generatePricePath = (config: MarketConfig): number[] => {
-  switch (config.type) {
-    case 'OU': return generateOU(config);
-    case 'JUMP': return generateJump(config);
-    case 'GBM': default: return generateGBM(config);
-  }
-};
-
-// --- 3. Technical Indicators Logic ---
-
-class TechnicalIndicators {
-  private gains: number[] = [];
-  private losses: number[] = [];
-  private tr: number[] = [];
-  private dmPlus: number[] = [];
-  private dmMinus: number[] = [];
-  private prices: number[] = [];
-
-  constructor(private period: number) { }
-
-  updateRSI(price: number, prevPrice: number): number | null {
-    const change = price - prevPrice;
-    const gain = change > 0 ? change : 0;
-    const loss = change < 0 ? -change : 0;
-    this.gains.push(gain);
-    this.losses.push(loss);
-    if (this.gains.length > this.period) {
-      this.gains.shift();
-      this.losses.shift();
-    }
-    if (this.gains.length < this.period) return null;
-    const avgGain = this.gains.reduce((a, b) => a + b, 0) / this.period;
-    const avgLoss = this.losses.reduce((a, b) => a + b, 0) / this.period;
-    if (avgLoss === 0) return 100;
-    const rs = avgGain / avgLoss;
-    return 100 - (100 / (1 + rs));
-  }
-
-  updateTrend(price: number, prevPrice: number): { adx: number, sma: number } | null {
-    this.prices.push(price);
-    if (this.prices.length > this.period) this.prices.shift();
-    const currentTR = Math.abs(price - prevPrice);
-    const moveUp = price - prevPrice;
-    const moveDown = prevPrice - price;
-    const currentDMPlus = (moveUp > 0 && moveUp > moveDown) ? moveUp : 0;
-    const currentDMMinus = (moveDown > 0 && moveDown > moveUp) ? moveDown : 0;
-    this.tr.push(currentTR);
-    this.dmPlus.push(currentDMPlus);
-    this.dmMinus.push(currentDMMinus);
-    if (this.tr.length > this.period) {
-      this.tr.shift();
-      this.dmPlus.shift();
-      this.dmMinus.shift();
-    }
-    if (this.tr.length < this.period) return null;
-    const sumTR = this.tr.reduce((a, b) => a + b, 0);
-    const sumDMPlus = this.dmPlus.reduce((a, b) => a + b, 0);
-    const sumDMMinus = this.dmMinus.reduce((a, b) => a + b, 0);
-    const sma = this.prices.reduce((a, b) => a + b, 0) / this.period;
-    if (sumTR === 0) return { adx: 0, sma };
-    const diPlus = (sumDMPlus / sumTR) * 100;
-    const diMinus = (sumDMMinus / sumTR) * 100;
-    const dx = Math.abs(diPlus - diMinus) / ((diPlus + diMinus) === 0 ? 1 : (diPlus + diMinus)) * 100;
-    return { adx: dx, sma };
-  }
-}
-
-// --- 4. Simulation Engine ---
-
-const runSimulation = (
-  market: MarketConfig,
-  strategy: StrategyConfig,
-  pricePath: number[]
-): SimulationResult => {
-  const data: StepData[] = [];
-  let totalFees = 0;
-  let rebalanceCount = 0;
-  const indicators = new TechnicalIndicators(strategy.indicatorPeriod);
-
-  let currentTargetAllocation = strategy.targetAllocation;
-  if (strategy.allocationMode !== 'fixed') {
-    currentTargetAllocation = 0.5;
-  }
-
-  const initialAssetValue = strategy.initialCapital * currentTargetAllocation;
-  const initialCash = strategy.initialCapital * (1 - currentTargetAllocation);
-  let strategyCash = initialCash;
-  let strategyAssetCount = initialAssetValue / market.initialPrice;
-
-  // HODL comparison: Fixed buy at start
-  const hodlAssetCount = (strategy.initialCapital * strategy.targetAllocation) / market.initialPrice;
-  const hodlCash = strategy.initialCapital * (1 - strategy.targetAllocation);
-
-  data.push({
-    day: 0,
-    price: market.initialPrice,
-    hodlValue: strategy.initialCapital,
-    strategyValue: strategy.initialCapital,
-    strategyCash: strategyCash,
-    strategyAssetValue: strategyAssetCount * market.initialPrice,
-    allocation: currentTargetAllocation,
-    targetAllocation: currentTargetAllocation,
-    action: 'hold'
-  });
-
-  let maxPeakHodl = strategy.initialCapital;
-  let maxPeakStrategy = strategy.initialCapital;
-  let maxDdHodl = 0;
-  let maxDdStrategy = 0;
-
-  for (let t = 1; t < pricePath.length; t++) {
-    const price = pricePath[t];
-    const prevPrice = pricePath[t - 1];
-    const rsiVal = indicators.updateRSI(price, prevPrice);
-    const trendVal = indicators.updateTrend(price, prevPrice);
-
-    // Dynamic Target Logic
-    if (strategy.allocationMode === 'rsi' && rsiVal !== null) {
-      let rsiFactor = (rsiVal - 30) / 40;
-      rsiFactor = Math.max(0, Math.min(1, rsiFactor));
-      currentTargetAllocation = strategy.maxAllocation - (rsiFactor * (strategy.maxAllocation - strategy.minAllocation));
-    } else if (strategy.allocationMode === 'adx' && trendVal !== null) {
-      const { adx, sma } = trendVal;
-      const midPoint = (strategy.maxAllocation + strategy.minAllocation) / 2;
-      if (adx > strategy.adxThreshold) {
-        currentTargetAllocation = (price > sma) ? strategy.maxAllocation : strategy.minAllocation;
-      } else {
-        currentTargetAllocation = midPoint;
-      }
-    } else if (strategy.allocationMode === 'fixed') {
-      currentTargetAllocation = strategy.targetAllocation;
-    }
-
-    // Metrics Update
-    const currentHodlValue = hodlCash + (hodlAssetCount * price);
-    maxPeakHodl = Math.max(maxPeakHodl, currentHodlValue);
-    maxDdHodl = Math.max(maxDdHodl, (maxPeakHodl - currentHodlValue) / maxPeakHodl);
-
-    let currentAssetValue = strategyAssetCount * price;
-    let currentTotalStrategyValue = strategyCash + currentAssetValue;
-    let currentAllocation = currentAssetValue / currentTotalStrategyValue;
-
-    let action: 'buy' | 'sell' | 'hold' = 'hold';
-    let tradeAmount = 0;
-
-    // Rebalancing Logic
-    let shouldRebalance = false;
-    if (strategy.rebalanceType === 'threshold') {
-      const deviation = Math.abs(currentAllocation - currentTargetAllocation);
-      shouldRebalance = deviation > strategy.rebalanceThreshold;
-    } else {
-      shouldRebalance = (t % strategy.rebalanceFrequency === 0);
-    }
-
-    if (shouldRebalance) {
-      const targetAssetValue = currentTotalStrategyValue * currentTargetAllocation;
-      const diff = targetAssetValue - currentAssetValue;
-
-      if (Math.abs(diff) > 1) { // Dust threshold
-        rebalanceCount++;
-        const fee = Math.abs(diff) * strategy.transactionFeeRate;
-        totalFees += fee;
-        strategyCash -= (diff + fee);
-        strategyAssetCount += (diff / price);
-        tradeAmount = diff;
-        action = diff > 0 ? 'buy' : 'sell';
-        currentAssetValue = strategyAssetCount * price;
-        currentTotalStrategyValue = strategyCash + currentAssetValue;
-        currentAllocation = currentAssetValue / currentTotalStrategyValue;
-      }
-    }
-
-    maxPeakStrategy = Math.max(maxPeakStrategy, currentTotalStrategyValue);
-    maxDdStrategy = Math.max(maxDdStrategy, (maxPeakStrategy - currentTotalStrategyValue) / maxPeakStrategy);
-
-    data.push({
-      day: t,
-      price,
-      hodlValue: currentHodlValue,
-      strategyValue: currentTotalStrategyValue,
-      strategyCash,
-      strategyAssetValue: currentAssetValue,
-      allocation: currentAllocation,
-      targetAllocation: currentTargetAllocation,
-      rsi: rsiVal ?? undefined,
-      adx: trendVal?.adx ?? undefined,
-      action,
-      tradeAmount
-    });
-  }
-
-  return {
-    data,
-    totalRebalances: rebalanceCount,
-    totalFees,
-    hodlReturn: (data[data.length - 1].hodlValue - strategy.initialCapital) / strategy.initialCapital,
-    strategyReturn: (data[data.length - 1].strategyValue - strategy.initialCapital) / strategy.initialCapital,
-    maxDrawdownHodl: maxDdHodl,
-    maxDrawdownStrategy: maxDdStrategy
-  };
-};
-
-// --- 5. Shared UI Components ---
+import { randomSeed, normalizeCorrelation, sweepValues, isScenarioComposed, scenarioDays, bootstrapModelIndex, bootstrapSourceMoments, priceMoments, rebalanceBands, computeRollingMetrics } from './engine';
+import { useSimulationWorker } from './useSimulationWorker';
+import { ALLOCATION_STRATEGIES, getAllocationStrategy } from './allocation';
+import type { AllocationParam } from './allocation';
+import { parsePriceFile, parsePastedPrices, toBootstrapReturns } from './priceImport';
+import { DEFAULT_MARKET, DEFAULT_STRATEGY, DEFAULT_STRATEGY_NAME, DEFAULT_SWEEP, MAX_STRATEGIES, MARKET_PRESETS, getActivePreset } from './defaults';
+import { encodeScenario, decodeScenario } from './shareLink';
+import type { DecodedScenario } from './shareLink';
+import { stepsToCsv, ledgerToCsv, buildRunBundle, parseRunBundle, downloadFile } from './runExport';
+import type {
+  AlphaAttribution,
+  AssetModel,
+  AssetConfig,
+  MarketRegime,
+  ScenarioSegment,
+  ScenarioShock,
+  RegimeStats,
+  BootstrapMethod,
+  BootstrapMoments,
+  ReturnMoments,
+  StepData,
+  ModelType,
+  AllocationMode,
+  LotMethod,
+  RebalanceTarget,
+  TradeTrigger,
+  MarketConfig,
+  StrategyConfig,
+  NamedStrategy,
+  SimulationResult,
+  DistributionSummary,
+  HistogramBin,
+  MonteCarloResult,
+  SweepField,
+  SweepAxis,
+  SweepConfig,
+  SweepCell,
+  SweepResult,
+  ImportedSeries,
+  ImportedSeriesRef,
+  MarketPreset
+} from './types';
+
+// Inputs settle for this long before a new single-path run is sent to the worker.
+const SIMULATION_DEBOUNCE_MS = 150;
+
+// --- 1. Shared UI Components ---
 
 const MetricCard = ({ label, value, subValue, type = 'neutral', icon: Icon }: any) => {
   const getColor = () => {
@@ -407,9 +160,222 @@ const NumberControl = ({ label, value, onChange, step = 0.01, min, max, isPercen
   );
 };
 
-// --- 6. Feature Sections (Components) ---
+const TextControl = ({ label, value, onChange }: { label: string, value: string, onChange: (v: string) => void }) => (
+  <div className="mb-4">
+    <label className="text-xs font-medium text-slate-300 mb-1.5 block">{label}</label>
+    <input
+      type="text"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all hover:border-slate-600"
+    />
+  </div>
+);
+
+const ASSET_COLORS = ['#818cf8', '#f59e0b', '#38bdf8', '#f472b6', '#a3e635', '#fb923c'];
+const STRATEGY_COLORS = ['#10b981', '#818cf8', '#f59e0b', '#f472b6', '#38bdf8', '#a3e635'];
+
+const AssetLegend = ({ assetNames }: { assetNames: string[] }) => (
+  <div className="flex flex-wrap gap-3 text-xs mt-2">
+    {assetNames.map((name, i) => (
+      <span key={name + i} className="flex items-center gap-1.5"><span className="w-2 h-2 rounded-full" style={{ backgroundColor: ASSET_COLORS[i % ASSET_COLORS.length] }}></span> {name}</span>
+    ))}
+  </div>
+);
+
+// --- 2. Feature Sections (Components) ---
+
+const REGIME_COLORS = ['#10b981', '#f43f5e', '#f59e0b', '#38bdf8', '#a78bfa', '#f472b6'];
+
+const RegimeControls = ({ regimes, onChange }: { regimes: MarketRegime[], onChange: (regimes: MarketRegime[]) => void }) => {
+  const update = (index: number, patch: Partial<MarketRegime>) => onChange(regimes.map((r, i) => i === index ? { ...r, ...patch } : r));
+  return (
+    <>
+      {regimes.map((regime, index) => (
+        <div key={index} className="mb-4 p-3 border border-slate-800 rounded-lg">
+          <div className="flex items-center justify-between mb-3">
+            <span className="text-xs font-semibold flex items-center gap-1.5" style={{ color: REGIME_COLORS[index % REGIME_COLORS.length] }}>
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: REGIME_COLORS[index % REGIME_COLORS.length] }}></span>
+              Regime {index + 1}{index === 0 ? ' (start)' : ''}
+            </span>
+            {regimes.length > 2 && (
+              <button onClick={() => onChange(regimes.filter((_, i) => i !== index))} className="text-slate-500 hover:text-rose-400 transition-colors" title="Remove regime">
+                <X size={14} />
+              </button>
+            )}
+          </div>
+          <TextControl label="Name" value={regime.name} onChange={(v) => update(index, { name: v })} />
+          <div className="grid grid-cols-2 gap-2">
+            <NumberControl label="Drift" value={regime.drift} min={-1} max={1} step={0.01} isPercentage={true} onChange={(v: number) => update(index, { drift: v })} />
+            <NumberControl label="Volatility" value={regime.volatility} min={0.01} max={2} step={0.01} isPercentage={true} onChange={(v: number) => update(index, { volatility: Math.max(0, v) })} />
+          </div>
+          <NumberControl label="Expected Duration (Days)" value={regime.expectedDays} min={1} max={2000} step={5} onChange={(v: number) => update(index, { expectedDays: Math.max(1, v) })} />
+        </div>
+      ))}
+      {regimes.length < REGIME_COLORS.length && (
+        <button
+          onClick={() => onChange([...regimes, { name: `Regime ${regimes.length + 1}`, drift: 0, volatility: 0.25, expectedDays: 60 }])}
+          className="w-full mb-4 py-2 px-4 bg-slate-800 hover:bg-slate-700 border border-slate-600 rounded-lg text-xs font-medium text-slate-300 transition-colors flex items-center justify-center gap-2"
+        >
+          <Plus size={12} /> Add Regime
+        </button>
+      )}
+      <p className="text-[10px] text-slate-500 -mt-2 mb-4 px-1">On leaving a regime the path moves to one of the others at random.</p>
+    </>
+  );
+};
+
+const MODEL_OPTIONS: { type: ModelType, label: string }[] = [
+  { type: 'GBM', label: 'Geometric Brownian Motion' },
+  { type: 'OU', label: 'Ornstein-Uhlenbeck (Range)' },
+  { type: 'JUMP', label: 'Jump Diffusion (Shocks)' },
+  { type: 'HESTON', label: 'Heston (Stochastic Volatility)' },
+  { type: 'GARCH', label: 'GARCH(1,1) (Volatility Clustering)' },
+  { type: 'REGIME', label: 'Regime Switching (Markov)' },
+  { type: 'BOOTSTRAP', label: 'Bootstrap (Historical Returns)' }
+];
+
+const BootstrapControls = ({ model, onChange, imported }: { model: AssetModel, onChange: (patch: Partial<AssetModel>) => void, imported: ImportedSeries | null }) => {
+  const [pasted, setPasted] = useState('');
+  const [pasteError, setPasteError] = useState<string | null>(null);
+  const usePasted = () => {
+    try {
+      const prices = parsePastedPrices(pasted);
+      onChange({ bootstrapReturns: toBootstrapReturns(prices), bootstrapSource: `Pasted series (${prices.length} prices)` });
+      setPasted('');
+      setPasteError(null);
+    } catch (err) {
+      setPasteError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <>
+      <div className="mb-4">
+        <label className="text-xs font-medium text-slate-300 mb-1.5 block">Resampling</label>
+        <select
+          value={model.bootstrapMethod}
+          onChange={(e) => onChange({ bootstrapMethod: e.target.value as BootstrapMethod })}
+          className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none"
+        >
+          <option value="block">Block (fixed length)</option>
+          <option value="stationary">Stationary (random length)</option>
+        </select>
+      </div>
+      <NumberControl
+        label={model.bootstrapMethod === 'stationary' ? 'Mean Block Length (Days)' : 'Block Length (Days)'}
+        value={model.bootstrapBlockLength}
+        min={1}
+        max={250}
+        step={1}
+        onChange={(v: number) => onChange({ bootstrapBlockLength: Math.max(1, Math.round(v)) })}
+      />
+      <div className="mb-4 p-3 border border-slate-800 rounded-lg text-xs text-slate-400 space-y-2">
+        {model.bootstrapReturns.length > 0 ? (
+          <>
+            <div className="flex justify-between gap-2">
+              <span className="text-slate-200 truncate" title={model.bootstrapSource}>{model.bootstrapSource || 'Source series'}</span>
+              <span className="flex-shrink-0">{model.bootstrapReturns.length} returns</span>
+            </div>
+            <p className="text-slate-500">Share links carry only the source name; the recipient has to load the same series.</p>
+          </>
+        ) : (
+          <p className="text-amber-400 flex items-start gap-1.5"><AlertTriangle size={12} className="mt-0.5 flex-shrink-0" /> No source series yet.</p>
+        )}
+        <button
+          onClick={() => imported && onChange({ bootstrapReturns: toBootstrapReturns(imported.bars.map(bar => bar.close)), bootstrapSource: imported.name })}
+          disabled={!imported}
+          className="w-full py-1.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded text-xs text-amber-300 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {imported ? `Use ${imported.name}` : 'Import a price file to use it here'}
+        </button>
+        <textarea
+          value={pasted}
+          onChange={(e) => setPasted(e.target.value)}
+          placeholder="Or paste prices, oldest first"
+          rows={3}
+          className="w-full bg-slate-800 border border-slate-700 rounded py-1.5 px-2 text-xs text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none resize-y"
+        />
+        {pasteError && <p className="text-rose-400">{pasteError}</p>}
+        <button
+          onClick={usePasted}
+          disabled={pasted.trim() === ''}
+          className="w-full py-1.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded text-xs text-slate-300 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Use Pasted Prices
+        </button>
+      </div>
+      <p className="text-[10px] text-slate-500 -mt-2 mb-4 px-1">Each source return counts as one day. Bootstrapped assets ignore the correlation matrix.</p>
+    </>
+  );
+};
+
+const AssetModelControls = ({ model, onChange, excludeTypes = [], imported = null }: { model: AssetModel, onChange: (patch: Partial<AssetModel>) => void, excludeTypes?: ModelType[], imported?: ImportedSeries | null }) => (
+  <>
+    <div className="mb-4">
+      <label className="text-xs font-medium text-slate-300 mb-1.5 block">Pricing Model</label>
+      <select
+        value={model.type}
+        onChange={(e) => onChange({ type: e.target.value as ModelType })}
+        className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none"
+      >
+        {MODEL_OPTIONS.filter(o => !excludeTypes.includes(o.type)).map(o => <option key={o.type} value={o.type}>{o.label}</option>)}
+      </select>
+    </div>
+    {model.type !== 'REGIME' && model.type !== 'BOOTSTRAP' && (
+      <NumberControl
+        label={model.type === 'HESTON' ? 'Initial Volatility' : model.type === 'GARCH' ? 'Long-Run Volatility' : 'Volatility (Annual)'}
+        value={model.volatility}
+        min={0.05}
+        max={2.0}
+        step={0.01}
+        isPercentage={true}
+        onChange={(v: number) => onChange({ volatility: v })}
+      />
+    )}
+
+    {(model.type === 'GBM' || model.type === 'HESTON' || model.type === 'GARCH') && (
+      <NumberControl label="Drift (Annual Trend)" value={model.drift} min={-0.5} max={0.5} step={0.01} isPercentage={true} onChange={(v: number) => onChange({ drift: v })} />
+    )}
+    {model.type === 'OU' && (
+      <>
+        <NumberControl label="Mean Reversion Speed" value={model.meanReversionSpeed} min={0.1} max={20} step={0.1} onChange={(v: number) => onChange({ meanReversionSpeed: v })} />
+        <NumberControl label="Target Price (Mean)" value={model.longTermMean} min={1} max={10000} step={1} prefix="$" onChange={(v: number) => onChange({ longTermMean: v })} />
+      </>
+    )}
+    {model.type === 'JUMP' && (
+      <>
+        <NumberControl label="Drift (Base Trend)" value={model.drift} min={-0.5} max={0.5} step={0.01} isPercentage={true} onChange={(v: number) => onChange({ drift: v })} />
+        <NumberControl label="Jump Intensity (per year)" value={model.jumpIntensity} min={0} max={50} step={0.5} onChange={(v: number) => onChange({ jumpIntensity: v })} />
+        <NumberControl label="Avg Jump Size" value={model.jumpMean} min={-0.5} max={0.5} step={0.01} isPercentage={true} onChange={(v: number) => onChange({ jumpMean: v })} />
+      </>
+    )}
+    {model.type === 'HESTON' && (
+      <>
+        <NumberControl label="Variance Reversion Speed" value={model.hestonKappa} min={0} max={20} step={0.1} onChange={(v: number) => onChange({ hestonKappa: Math.max(0, v) })} />
+        <NumberControl label="Long-Run Variance" value={model.hestonTheta} min={0} max={4} step={0.01} onChange={(v: number) => onChange({ hestonTheta: Math.max(0, v) })} />
+        <p className="text-[10px] text-slate-500 -mt-3 mb-4 px-1">Long-run volatility: {(Math.sqrt(Math.max(0, model.hestonTheta)) * 100).toFixed(1)}%</p>
+        <NumberControl label="Vol of Vol" value={model.hestonVolOfVol} min={0} max={3} step={0.05} onChange={(v: number) => onChange({ hestonVolOfVol: Math.max(0, v) })} />
+        <NumberControl label="Price / Vol Correlation" value={model.hestonRho} min={-1} max={1} step={0.05} onChange={(v: number) => onChange({ hestonRho: Math.max(-1, Math.min(1, v)) })} />
+      </>
+    )}
+    {model.type === 'GARCH' && (
+      <>
+        <div className="grid grid-cols-2 gap-2">
+          <NumberControl label="Alpha (Shock)" value={model.garchAlpha} min={0} max={1} step={0.01} onChange={(v: number) => onChange({ garchAlpha: Math.max(0, v) })} />
+          <NumberControl label="Beta (Persistence)" value={model.garchBeta} min={0} max={1} step={0.01} onChange={(v: number) => onChange({ garchBeta: Math.max(0, v) })} />
+        </div>
+        <p className={`text-[10px] -mt-3 mb-4 px-1 ${model.garchAlpha + model.garchBeta >= 1 ? 'text-rose-400' : 'text-slate-500'}`}>
+          Alpha + Beta = {(model.garchAlpha + model.garchBeta).toFixed(2)} (must be below 1)
+        </p>
+      </>
+    )}
+    {model.type === 'REGIME' && <RegimeControls regimes={model.regimes} onChange={(regimes) => onChange({ regimes })} />}
+    {model.type === 'BOOTSTRAP' && <BootstrapControls model={model} onChange={onChange} imported={imported} />}
+  </>
+);
 
-const MarketControls = ({ market, setMarket, regenerateMarket, applyPreset }: any) => (
+const MarketControls = ({ market, setMarket, regenerateMarket, applyPreset, activePreset, imported }: any) => (
   <>
     <div className="p-6 border-b border-slate-800">
       <div className="flex items-center justify-between mb-1">
@@ -437,19 +403,19 @@ const MarketControls = ({ market, setMarket, regenerateMarket, applyPreset }: an
           Quick Setup
         </div>
         <div className="grid grid-cols-2 gap-2">
-          <button onClick={() => applyPreset('BULL')} className="px-2 py-1.5 bg-slate-800 hover:bg-indigo-900/30 border border-slate-700 rounded text-xs text-emerald-400 flex items-center gap-1 justify-center transition-colors">
+          <button onClick={() => applyPreset('BULL')} className={`px-2 py-1.5 bg-slate-800 hover:bg-indigo-900/30 border border-slate-700 rounded text-xs text-emerald-400 flex items-center gap-1 justify-center transition-colors ${activePreset === 'BULL' ? 'ring-1 ring-indigo-500' : ''}`}>
             <TrendingUp size={12} /> Bull Trend
           </button>
-          <button onClick={() => applyPreset('BEAR')} className="px-2 py-1.5 bg-slate-800 hover:bg-rose-900/30 border border-slate-700 rounded text-xs text-rose-400 flex items-center gap-1 justify-center transition-colors">
+          <button onClick={() => applyPreset('BEAR')} className={`px-2 py-1.5 bg-slate-800 hover:bg-rose-900/30 border border-slate-700 rounded text-xs text-rose-400 flex items-center gap-1 justify-center transition-colors ${activePreset === 'BEAR' ? 'ring-1 ring-indigo-500' : ''}`}>
             <TrendingDown size={12} /> Bear Trend
           </button>
-          <button onClick={() => applyPreset('SIDEWAYS')} className="px-2 py-1.5 bg-slate-800 hover:bg-blue-900/30 border border-slate-700 rounded text-xs text-blue-400 flex items-center gap-1 justify-center transition-colors">
+          <button onClick={() => applyPreset('SIDEWAYS')} className={`px-2 py-1.5 bg-slate-800 hover:bg-blue-900/30 border border-slate-700 rounded text-xs text-blue-400 flex items-center gap-1 justify-center transition-colors ${activePreset === 'SIDEWAYS' ? 'ring-1 ring-indigo-500' : ''}`}>
             <Minus size={12} /> Range (OU)
           </button>
-          <button onClick={() => applyPreset('CRASH')} className="px-2 py-1.5 bg-slate-800 hover:bg-orange-900/30 border border-slate-700 rounded text-xs text-orange-400 flex items-center gap-1 justify-center transition-colors">
+          <button onClick={() => applyPreset('CRASH')} className={`px-2 py-1.5 bg-slate-800 hover:bg-orange-900/30 border border-slate-700 rounded text-xs text-orange-400 flex items-center gap-1 justify-center transition-colors ${activePreset === 'CRASH' ? 'ring-1 ring-indigo-500' : ''}`}>
             <AlertTriangle size={12} /> Crash Risk
           </button>
-          <button onClick={() => applyPreset('VOLATILE')} className="col-span-2 px-2 py-1.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded text-xs text-slate-300 flex items-center gap-1 justify-center transition-colors">
+          <button onClick={() => applyPreset('VOLATILE')} className={`col-span-2 px-2 py-1.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded text-xs text-slate-300 flex items-center gap-1 justify-center transition-colors ${activePreset === 'VOLATILE' ? 'ring-1 ring-indigo-500' : ''}`}>
             <Activity size={12} /> High Volatility (No Trend)
           </button>
         </div>
@@ -462,38 +428,27 @@ const MarketControls = ({ market, setMarket, regenerateMarket, applyPreset }: an
           <TrendingUp size={14} className="text-blue-500" />
           Market Params
         </div>
-        <div className="mb-4">
-          <label className="text-xs font-medium text-slate-300 mb-1.5 block">Pricing Model</label>
-          <select
-            value={market.type}
-            onChange={(e) => setMarket((p: MarketConfig) => ({ ...p, type: e.target.value as ModelType }))}
-            className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none"
-          >
-            <option value="GBM">Geometric Brownian Motion</option>
-            <option value="OU">Ornstein-Uhlenbeck (Range)</option>
-            <option value="JUMP">Jump Diffusion (Shocks)</option>
-          </select>
-        </div>
-        <NumberControl label="Duration (Days)" value={market.days} min={30} max={1000} step={10} onChange={(v: number) => setMarket((p: MarketConfig) => ({ ...p, days: v }))} />
-        <NumberControl label="Volatility (Annual)" value={market.volatility} min={0.05} max={2.0} step={0.01} isPercentage={true} onChange={(v: number) => setMarket((p: MarketConfig) => ({ ...p, volatility: v }))} />
-
-        {market.type === 'GBM' && (
-          <NumberControl label="Drift (Annual Trend)" value={market.drift} min={-0.5} max={0.5} step={0.01} isPercentage={true} onChange={(v: number) => setMarket((p: MarketConfig) => ({ ...p, drift: v }))} />
-        )}
-        {market.type === 'OU' && (
+        {isScenarioComposed(market) ? (
+          <p className="text-[10px] text-slate-500 mb-4 px-1">
+            The scenario below sets the first asset's model and the path length ({scenarioDays(market)} days).
+          </p>
+        ) : (
           <>
-            <NumberControl label="Mean Reversion Speed" value={market.meanReversionSpeed} min={0.1} max={20} step={0.1} onChange={(v: number) => setMarket((p: MarketConfig) => ({ ...p, meanReversionSpeed: v }))} />
-            <NumberControl label="Target Price (Mean)" value={market.longTermMean} min={1} max={10000} step={1} prefix="$" onChange={(v: number) => setMarket((p: MarketConfig) => ({ ...p, longTermMean: v }))} />
+            <NumberControl label="Duration (Days)" value={market.days} min={30} max={1000} step={10} onChange={(v: number) => setMarket((p: MarketConfig) => ({ ...p, days: v }))} />
+            <AssetModelControls model={market} onChange={(patch: Partial<AssetModel>) => setMarket((p: MarketConfig) => ({ ...p, ...patch }))} imported={imported} />
           </>
         )}
-        {market.type === 'JUMP' && (
-          <>
-            <NumberControl label="Drift (Base Trend)" value={market.drift} min={-0.5} max={0.5} step={0.01} isPercentage={true} onChange={(v: number) => setMarket((p: MarketConfig) => ({ ...p, drift: v }))} />
-            <NumberControl label="Jump Intensity (per year)" value={market.jumpIntensity} min={0} max={50} step={0.5} onChange={(v: number) => setMarket((p: MarketConfig) => ({ ...p, jumpIntensity: v }))} />
-            <NumberControl label="Avg Jump Size" value={market.jumpMean} min={-0.5} max={0.5} step={0.01} isPercentage={true} onChange={(v: number) => setMarket((p: MarketConfig) => ({ ...p, jumpMean: v }))} />
-          </>
+
+        <label className="flex items-center gap-2 mb-4 text-xs text-slate-300 cursor-pointer">
+          <input type="checkbox" checked={market.intradayBars} onChange={(e) => setMarket((p: MarketConfig) => ({ ...p, intradayBars: e.target.checked }))} className="accent-indigo-500" />
+          Intraday OHLC bars
+        </label>
+        {market.intradayBars && (
+          <NumberControl label="Intraday Sub-steps" value={market.intradaySteps} min={2} max={200} step={1} onChange={(v: number) => setMarket((p: MarketConfig) => ({ ...p, intradaySteps: Math.max(2, Math.round(v)) }))} />
         )}
 
+        <NumberControl label="Path Seed" value={market.seed} min={0} max={4294967295} step={1} onChange={(v: number) => setMarket((p: MarketConfig) => ({ ...p, seed: Math.floor(Math.abs(v)) >>> 0 }))} />
+
         <button onClick={regenerateMarket} className="w-full mt-2 py-2 px-4 bg-slate-800 hover:bg-slate-700 border border-slate-600 rounded-lg text-xs font-medium text-indigo-300 transition-colors flex items-center justify-center gap-2">
           <RefreshCw size={12} /> Regenerate Market Path
         </button>
@@ -502,7 +457,278 @@ const MarketControls = ({ market, setMarket, regenerateMarket, applyPreset }: an
   </>
 );
 
-const StrategyControls = ({ strategy, setStrategy }: any) => (
+const ScenarioControls = ({ market, setMarket, imported }: { market: MarketConfig, setMarket: React.Dispatch<React.SetStateAction<MarketConfig>>, imported: ImportedSeries | null }) => {
+  const updateSegment = (index: number, patch: Partial<ScenarioSegment>) =>
+    setMarket(p => ({ ...p, segments: p.segments.map((seg, i) => i === index ? { ...seg, ...patch } : seg) }));
+  const updateShock = (index: number, patch: Partial<ScenarioShock>) =>
+    setMarket(p => ({ ...p, shocks: p.shocks.map((shock, i) => i === index ? { ...shock, ...patch } : shock) }));
+  const addSegment = () => setMarket(p => {
+    const last = p.segments[p.segments.length - 1];
+    return { ...p, segments: [...p.segments, last ? { ...last } : { ...DEFAULT_MARKET.segments[0] }] };
+  });
+  const addShock = () => setMarket(p => ({ ...p, shocks: [...p.shocks, { kind: 'gap', day: Math.max(1, Math.round(scenarioDays(p) / 2)), size: -0.1, duration: 1 }] }));
+  // Segment start days, so each card can say where it sits on the path.
+  let start = 0;
+  const starts = market.segments.map(seg => {
+    const s = start;
+    start += Math.max(1, Math.round(seg.days));
+    return s;
+  });
+
+  return (
+    <div className="p-6 pt-0">
+      <section>
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2 text-sm font-semibold text-slate-100 uppercase tracking-wider">
+            <Route size={14} className="text-cyan-500" />
+            Scenario
+          </div>
+          <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+            <input type="checkbox" checked={market.scenarioEnabled} onChange={(e) => setMarket(p => ({ ...p, scenarioEnabled: e.target.checked }))} className="accent-indigo-500" />
+            Enabled
+          </label>
+        </div>
+        {!market.scenarioEnabled ? (
+          <p className="text-[10px] text-slate-500 px-1">Chain model segments and schedule shocks to script the first asset's path.</p>
+        ) : (
+          <>
+            {market.segments.map((segment, index) => (
+              <div key={index} className="mb-4 p-3 border border-slate-800 rounded-lg">
+                <div className="flex items-center justify-between mb-3">
+                  <span className="text-xs font-semibold text-cyan-400">Segment {index + 1} <span className="text-slate-500 font-normal">from day {starts[index]}</span></span>
+                  {market.segments.length > 1 && (
+                    <button onClick={() => setMarket(p => ({ ...p, segments: p.segments.filter((_, i) => i !== index) }))} className="text-slate-500 hover:text-rose-400 transition-colors" title="Remove segment">
+                      <X size={14} />
+                    </button>
+                  )}
+                </div>
+                <NumberControl label="Length (Days)" value={segment.days} min={1} max={1000} step={10} onChange={(v: number) => updateSegment(index, { days: Math.max(1, Math.round(v)) })} />
+                <AssetModelControls model={segment} onChange={(patch) => updateSegment(index, patch)} excludeTypes={['REGIME']} imported={imported} />
+              </div>
+            ))}
+            <button onClick={addSegment} className="w-full mb-4 py-2 px-4 bg-slate-800 hover:bg-slate-700 border border-slate-600 rounded-lg text-xs font-medium text-slate-300 transition-colors flex items-center justify-center gap-2">
+              <Plus size={12} /> Add Segment
+            </button>
+
+            {market.shocks.map((shock, index) => (
+              <div key={index} className="mb-4 p-3 border border-slate-800 rounded-lg">
+                <div className="flex items-center justify-between mb-3">
+                  <select
+                    value={shock.kind}
+                    onChange={(e) => updateShock(index, e.target.value === 'gap' ? { kind: 'gap', size: -0.1, duration: 1 } : { kind: 'volSpike', size: 3, duration: 20 })}
+                    className="bg-slate-800 border border-slate-700 rounded py-1 px-2 text-xs text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none"
+                  >
+                    <option value="gap">Price Gap</option>
+                    <option value="volSpike">Volatility Spike</option>
+                  </select>
+                  <button onClick={() => setMarket(p => ({ ...p, shocks: p.shocks.filter((_, i) => i !== index) }))} className="text-slate-500 hover:text-rose-400 transition-colors" title="Remove shock">
+                    <X size={14} />
+                  </button>
+                </div>
+                <NumberControl label="Day" value={shock.day} min={1} max={Math.max(1, scenarioDays(market))} step={1} onChange={(v: number) => updateShock(index, { day: Math.max(1, Math.round(v)) })} />
+                {shock.kind === 'gap' ? (
+                  <NumberControl label="Gap Size" value={shock.size} min={-0.9} max={1} step={0.01} isPercentage={true} onChange={(v: number) => updateShock(index, { size: Math.max(-0.99, v) })} />
+                ) : (
+                  <div className="grid grid-cols-2 gap-2">
+                    <NumberControl label="Vol Multiplier" value={shock.size} min={0} max={10} step={0.1} onChange={(v: number) => updateShock(index, { size: Math.max(0, v) })} />
+                    <NumberControl label="Duration (Days)" value={shock.duration} min={1} max={500} step={1} onChange={(v: number) => updateShock(index, { duration: Math.max(1, Math.round(v)) })} />
+                  </div>
+                )}
+              </div>
+            ))}
+            <button onClick={addShock} className="w-full mb-2 py-2 px-4 bg-slate-800 hover:bg-slate-700 border border-slate-600 rounded-lg text-xs font-medium text-slate-300 transition-colors flex items-center justify-center gap-2">
+              <Plus size={12} /> Add Shock
+            </button>
+            <p className="text-[10px] text-slate-500 px-1">Each segment starts from the previous one's last price. Gaps are permanent.</p>
+          </>
+        )}
+      </section>
+    </div>
+  );
+};
+
+const DataImportControls = ({ imported, importError, onImport, onClear }: { imported: ImportedSeries | null, importError: string | null, onImport: (file: File) => void, onClear: () => void }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const formatPercent = (val: number) => `${(val * 100).toFixed(2)}%`;
+
+  return (
+    <div className="p-6 pt-0">
+      <section>
+        <div className="flex items-center gap-2 mb-4 text-sm font-semibold text-slate-100 uppercase tracking-wider">
+          <Database size={14} className="text-amber-500" />
+          Market Data
+        </div>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+        />
+        <button onClick={() => inputRef.current?.click()} className="w-full mb-3 py-2 px-4 bg-slate-800 hover:bg-slate-700 border border-slate-600 rounded-lg text-xs font-medium text-amber-300 transition-colors flex items-center justify-center gap-2">
+          <Upload size={12} /> Import Price History (CSV / JSON)
+        </button>
+        {importError && (
+          <p className="text-xs text-rose-400 mb-3 flex items-start gap-1.5"><AlertTriangle size={12} className="mt-0.5 flex-shrink-0" /> {importError}</p>
+        )}
+        {imported ? (
+          <div className="p-3 border border-slate-800 rounded-lg text-xs text-slate-400 space-y-1">
+            <div className="text-slate-200 font-medium truncate" title={imported.name}>{imported.name}</div>
+            <div className="flex justify-between"><span>Range</span><span className="text-slate-300">{imported.summary.startDate} to {imported.summary.endDate}</span></div>
+            <div className="flex justify-between"><span>Observations</span><span className="text-slate-300">{imported.summary.observations}{imported.summary.hasOhlc ? ' (OHLC)' : ''}</span></div>
+            <div className="flex justify-between"><span>Missing Weekdays</span><span className="text-slate-300">{imported.summary.missingDays}</span></div>
+            {(imported.summary.droppedRows > 0 || imported.summary.duplicateRows > 0) && (
+              <div className="flex justify-between"><span>Dropped / Duplicate Rows</span><span className="text-amber-400">{imported.summary.droppedRows} / {imported.summary.duplicateRows}</span></div>
+            )}
+            <div className="flex justify-between"><span>Implied Volatility</span><span className="text-slate-300">{formatPercent(imported.summary.annualVolatility)}</span></div>
+            <div className="flex justify-between"><span>Implied Drift</span><span className="text-slate-300">{formatPercent(imported.summary.annualDrift)}</span></div>
+            <p className="text-[10px] text-slate-500 pt-1">Single-path runs use this series. Monte Carlo still samples from the market params below.</p>
+            <button onClick={onClear} className="w-full mt-2 py-1.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded text-xs text-slate-300 transition-colors">
+              Use Simulated Path
+            </button>
+          </div>
+        ) : (
+          <p className="text-[10px] text-slate-500 px-1">Date and close columns required; open/high/low are kept when present.</p>
+        )}
+      </section>
+    </div>
+  );
+};
+
+const AssetsControls = ({ market, setMarket, addAsset, removeAsset, imported }: { market: MarketConfig, setMarket: React.Dispatch<React.SetStateAction<MarketConfig>>, addAsset: () => void, removeAsset: (index: number) => void, imported: ImportedSeries | null }) => {
+  const names: string[] = [market.assetName, ...market.extraAssets.map((a: AssetConfig) => a.name)];
+  const updateAsset = (index: number, patch: Partial<AssetConfig>) =>
+    setMarket((p: MarketConfig) => ({ ...p, extraAssets: p.extraAssets.map((a, i) => i === index ? { ...a, ...patch } : a) }));
+  const setCorrelation = (i: number, j: number, v: number) =>
+    setMarket((p: MarketConfig) => {
+      const correlation = normalizeCorrelation(p.correlation, names.length);
+      correlation[i][j] = v;
+      correlation[j][i] = v;
+      return { ...p, correlation };
+    });
+  const correlation = normalizeCorrelation(market.correlation, names.length);
+
+  return (
+    <div className="p-6 pt-0">
+      <section>
+        <div className="flex items-center gap-2 mb-4 text-sm font-semibold text-slate-100 uppercase tracking-wider">
+          <Layers size={14} className="text-sky-500" />
+          Portfolio Assets
+        </div>
+        <TextControl label="Asset 1 Name" value={market.assetName} onChange={(v) => setMarket((p: MarketConfig) => ({ ...p, assetName: v }))} />
+
+        {market.extraAssets.map((asset: AssetConfig, index: number) => (
+          <div key={index} className="mb-4 p-3 border border-slate-800 rounded-lg">
+            <div className="flex items-center justify-between mb-3">
+              <span className="text-xs font-semibold flex items-center gap-1.5" style={{ color: ASSET_COLORS[(index + 1) % ASSET_COLORS.length] }}>
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: ASSET_COLORS[(index + 1) % ASSET_COLORS.length] }}></span>
+                Asset {index + 2}
+              </span>
+              <button onClick={() => removeAsset(index)} className="text-slate-500 hover:text-rose-400 transition-colors" title="Remove asset">
+                <X size={14} />
+              </button>
+            </div>
+            <TextControl label="Name" value={asset.name} onChange={(v) => updateAsset(index, { name: v })} />
+            <AssetModelControls model={asset} onChange={(patch) => updateAsset(index, patch)} imported={imported} />
+          </div>
+        ))}
+
+        <button onClick={addAsset} className="w-full mb-4 py-2 px-4 bg-slate-800 hover:bg-slate-700 border border-slate-600 rounded-lg text-xs font-medium text-sky-300 transition-colors flex items-center justify-center gap-2">
+          <Plus size={12} /> Add Asset
+        </button>
+
+        {names.length > 1 && (
+          <>
+            <label className="text-xs font-medium text-slate-300 mb-1.5 block">Shock Correlations</label>
+            <div className="grid grid-cols-2 gap-x-2">
+              {names.flatMap((rowName, i) => names.slice(i + 1).map((colName, k) => {
+                const j = i + 1 + k;
+                return (
+                  <NumberControl key={`${i}-${j}`} label={`${rowName} / ${colName}`} value={correlation[i][j]} min={-1} max={1} step={0.05} onChange={(v: number) => setCorrelation(i, j, Math.max(-1, Math.min(1, v)))} />
+                );
+              }))}
+            </div>
+          </>
+        )}
+      </section>
+    </div>
+  );
+};
+
+const StrategyListControls = ({ strategies, activeIndex, onSelect, onAdd, onRemove, onRename }: { strategies: NamedStrategy[], activeIndex: number, onSelect: (index: number) => void, onAdd: () => void, onRemove: (index: number) => void, onRename: (name: string) => void }) => (
+  <div className="p-6 pt-0">
+    <section>
+      <div className="flex items-center gap-2 mb-4 text-sm font-semibold text-slate-100 uppercase tracking-wider">
+        <GitCompare size={14} className="text-emerald-500" />
+        Strategies
+      </div>
+      <div className="space-y-1 mb-4">
+        {strategies.map((s, i) => (
+          <div
+            key={i}
+            onClick={() => onSelect(i)}
+            className={`flex items-center gap-2 px-3 py-2 rounded-lg border text-xs cursor-pointer transition-colors ${i === activeIndex ? 'bg-slate-800 border-slate-600 text-slate-100' : 'border-slate-800 text-slate-400 hover:text-slate-200 hover:border-slate-700'}`}
+          >
+            <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: STRATEGY_COLORS[i % STRATEGY_COLORS.length] }}></span>
+            <span className="flex-1 truncate">{s.name}</span>
+            {strategies.length > 1 && (
+              <button onClick={(e) => { e.stopPropagation(); onRemove(i); }} className="text-slate-500 hover:text-rose-400 transition-colors" title="Remove strategy">
+                <X size={12} />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+      <TextControl label="Selected Strategy Name" value={strategies[activeIndex].name} onChange={onRename} />
+      {strategies.length < MAX_STRATEGIES && (
+        <button onClick={onAdd} className="w-full mb-4 py-2 px-4 bg-slate-800 hover:bg-slate-700 border border-slate-600 rounded-lg text-xs font-medium text-emerald-300 transition-colors flex items-center justify-center gap-2">
+          <Copy size={12} /> Duplicate as New Strategy
+        </button>
+      )}
+      <p className="text-[10px] text-slate-500 -mt-2 mb-4 px-1">All strategies run on the same path. Strategy Config below edits the selected one.</p>
+    </section>
+  </div>
+);
+
+// Renders the controls an allocation strategy declares; half-width params pair up side by side.
+const AllocationParamControls = ({ strategy, setStrategy }: { strategy: StrategyConfig, setStrategy: (update: (p: StrategyConfig) => StrategyConfig) => void }) => {
+  const rows: AllocationParam[][] = [];
+  getAllocationStrategy(strategy.allocationMode).params.forEach(param => {
+    const last = rows[rows.length - 1];
+    if (param.half && last?.length === 1 && last[0].half) last.push(param);
+    else rows.push([param]);
+  });
+  const control = (param: AllocationParam) => (
+    <NumberControl
+      key={param.field}
+      label={param.label}
+      value={strategy[param.field]}
+      min={param.min}
+      max={param.max}
+      step={param.step}
+      isPercentage={param.isPercentage}
+      onChange={(v: number) => setStrategy((p: StrategyConfig) => ({ ...p, [param.field]: param.integer ? Math.max(1, Math.round(v)) : v }))}
+    />
+  );
+  return (
+    <>
+      {rows.map(row => row.length === 2
+        ? <div key={row[0].field} className="grid grid-cols-2 gap-2">{row.map(control)}</div>
+        : control(row[0]))}
+    </>
+  );
+};
+
+// Gross exposure per unit of equity at the most extreme allocation the strategy can target.
+const maxLeverage = (strategy: StrategyConfig): number => strategy.allocationMode === 'fixed'
+  ? Math.abs(strategy.targetAllocation)
+  : Math.max(Math.abs(strategy.minAllocation), Math.abs(strategy.maxAllocation));
+
+const StrategyControls = ({ strategy, setStrategy, assetNames }: any) => (
   <div className="p-6 pt-0">
     <section>
       <div className="flex items-center gap-2 mb-4 text-sm font-semibold text-slate-100 uppercase tracking-wider">
@@ -520,30 +746,53 @@ const StrategyControls = ({ strategy, setStrategy }: any) => (
             onChange={(e) => setStrategy((p: StrategyConfig) => ({ ...p, allocationMode: e.target.value as AllocationMode }))}
             className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none"
           >
-            <option value="fixed">Fixed Target</option>
-            <option value="rsi">Auto (RSI Contrarian)</option>
-            <option value="adx">Auto (Trend Following)</option>
+            {ALLOCATION_STRATEGIES.map(option => (
+              <option key={option.mode} value={option.mode}>{option.label}</option>
+            ))}
           </select>
+          <p className="text-[10px] text-slate-500 mt-1 px-1">{getAllocationStrategy(strategy.allocationMode).description}</p>
+        </div>
+      </div>
+
+      <AllocationParamControls strategy={strategy} setStrategy={setStrategy} />
+
+      {getAllocationStrategy(strategy.allocationMode).usesIndicators && (
+        <div className="mb-4">
+          <label className="text-xs font-medium text-slate-300 mb-1.5 block">Indicator Method</label>
+          <div className="flex bg-slate-800 p-1 rounded-lg border border-slate-700">
+            <button onClick={() => setStrategy((p: StrategyConfig) => ({ ...p, indicatorMethod: 'wilder' }))} className={`flex-1 py-1.5 text-xs font-medium rounded transition-colors ${strategy.indicatorMethod === 'wilder' ? 'bg-slate-600 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}>
+              Wilder
+            </button>
+            <button onClick={() => setStrategy((p: StrategyConfig) => ({ ...p, indicatorMethod: 'legacy' }))} className={`flex-1 py-1.5 text-xs font-medium rounded transition-colors ${strategy.indicatorMethod === 'legacy' ? 'bg-slate-600 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}>
+              Legacy
+            </button>
+          </div>
           <p className="text-[10px] text-slate-500 mt-1 px-1">
-            {strategy.allocationMode === 'fixed' && "Maintains constant exposure."}
-            {strategy.allocationMode === 'rsi' && "Buys dips (Low RSI), Sells rips (High RSI)."}
-            {strategy.allocationMode === 'adx' && "Increases exposure during strong uptrends."}
+            {strategy.indicatorMethod === 'wilder'
+              ? 'Wilder-smoothed RSI and ADX; true range uses intraday highs and lows when the path has bars.'
+              : 'Simple-average RSI and unsmoothed close-to-close DX, as earlier versions computed them.'}
           </p>
         </div>
-      </div>
+      )}
 
-      {strategy.allocationMode === 'fixed' ? (
-        <NumberControl label="Target Allocation" value={strategy.targetAllocation} min={0.0} max={1.0} step={0.01} isPercentage={true} onChange={(v: number) => setStrategy((p: StrategyConfig) => ({ ...p, targetAllocation: v }))} />
-      ) : (
+      {assetNames.length > 1 && (
         <>
-          <div className="grid grid-cols-2 gap-2">
-            <NumberControl label="Min Alloc" value={strategy.minAllocation} min={0.0} max={1.0} step={0.05} isPercentage={true} onChange={(v: number) => setStrategy((p: StrategyConfig) => ({ ...p, minAllocation: v }))} />
-            <NumberControl label="Max Alloc" value={strategy.maxAllocation} min={0.0} max={1.0} step={0.05} isPercentage={true} onChange={(v: number) => setStrategy((p: StrategyConfig) => ({ ...p, maxAllocation: v }))} />
+          <label className="text-xs font-medium text-slate-300 mb-1.5 block">Asset Weights (within allocation)</label>
+          <div className="grid grid-cols-2 gap-x-2">
+            {assetNames.map((name: string, i: number) => (
+              <NumberControl
+                key={i}
+                label={name}
+                value={strategy.assetWeights[i] ?? 0}
+                min={0}
+                max={1}
+                step={0.05}
+                isPercentage={true}
+                onChange={(v: number) => setStrategy((p: StrategyConfig) => ({ ...p, assetWeights: assetNames.map((_: string, k: number) => k === i ? Math.max(0, v) : (p.assetWeights[k] ?? 0)) }))}
+              />
+            ))}
           </div>
-          <NumberControl label={strategy.allocationMode === 'rsi' ? "RSI Period" : "ADX Period"} value={strategy.indicatorPeriod} min={2} max={50} step={1} onChange={(v: number) => setStrategy((p: StrategyConfig) => ({ ...p, indicatorPeriod: v }))} />
-          {strategy.allocationMode === 'adx' && (
-            <NumberControl label="Trend Strength (ADX Threshold)" value={strategy.adxThreshold} min={10} max={50} step={1} onChange={(v: number) => setStrategy((p: StrategyConfig) => ({ ...p, adxThreshold: v }))} />
-          )}
+          <p className="text-[10px] text-slate-500 -mt-2 mb-4 px-1">Weights are normalized to sum to 100% of the allocation.</p>
         </>
       )}
 
@@ -558,79 +807,700 @@ const StrategyControls = ({ strategy, setStrategy }: any) => (
           <button onClick={() => setStrategy((p: StrategyConfig) => ({ ...p, rebalanceType: 'time' }))} className={`flex-1 py-1.5 text-xs font-medium rounded transition-colors ${strategy.rebalanceType === 'time' ? 'bg-slate-600 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}>
             Time
           </button>
+          <button onClick={() => setStrategy((p: StrategyConfig) => ({ ...p, rebalanceType: 'timeBand' }))} className={`flex-1 py-1.5 text-xs font-medium rounded transition-colors ${strategy.rebalanceType === 'timeBand' ? 'bg-slate-600 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}>
+            Time + Band
+          </button>
         </div>
       </div>
 
-      {strategy.rebalanceType === 'threshold' ? (
-        <NumberControl label="Rebalance Threshold" value={strategy.rebalanceThreshold} min={0.0} max={0.5} step={0.001} isPercentage={true} onChange={(v: number) => setStrategy((p: StrategyConfig) => ({ ...p, rebalanceThreshold: v }))} />
-      ) : (
+      {strategy.rebalanceType !== 'threshold' && (
         <NumberControl label="Frequency (Days)" value={strategy.rebalanceFrequency} min={1} max={365} step={1} onChange={(v: number) => setStrategy((p: StrategyConfig) => ({ ...p, rebalanceFrequency: v }))} />
       )}
+      {(strategy.rebalanceType !== 'time' || strategy.rebalanceTo === 'bandEdge') && (
+        <>
+          <div className="mb-4">
+            <div className="flex bg-slate-800 p-1 rounded-lg border border-slate-700">
+              <button onClick={() => setStrategy((p: StrategyConfig) => ({ ...p, bandType: 'absolute' }))} className={`flex-1 py-1.5 text-xs font-medium rounded transition-colors ${strategy.bandType === 'absolute' ? 'bg-slate-600 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}>
+                Absolute Band
+              </button>
+              <button onClick={() => setStrategy((p: StrategyConfig) => ({ ...p, bandType: 'relative' }))} className={`flex-1 py-1.5 text-xs font-medium rounded transition-colors ${strategy.bandType === 'relative' ? 'bg-slate-600 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}>
+                Relative Band
+              </button>
+            </div>
+          </div>
+          {strategy.asymmetricBands ? (
+            <div className="grid grid-cols-2 gap-2">
+              <NumberControl label="Upper Band" value={strategy.rebalanceThreshold} min={0.0} max={0.5} step={0.001} isPercentage={true} onChange={(v: number) => setStrategy((p: StrategyConfig) => ({ ...p, rebalanceThreshold: Math.max(0, v) }))} />
+              <NumberControl label="Lower Band" value={strategy.lowerRebalanceThreshold} min={0.0} max={0.5} step={0.001} isPercentage={true} onChange={(v: number) => setStrategy((p: StrategyConfig) => ({ ...p, lowerRebalanceThreshold: Math.max(0, v) }))} />
+            </div>
+          ) : (
+            <NumberControl label="Rebalance Threshold" value={strategy.rebalanceThreshold} min={0.0} max={0.5} step={0.001} isPercentage={true} onChange={(v: number) => setStrategy((p: StrategyConfig) => ({ ...p, rebalanceThreshold: v }))} />
+          )}
+          <label className="flex items-center gap-2 mb-4 text-xs text-slate-300 cursor-pointer">
+            <input type="checkbox" checked={strategy.asymmetricBands} onChange={(e) => setStrategy((p: StrategyConfig) => ({ ...p, asymmetricBands: e.target.checked }))} className="accent-indigo-500" />
+            Separate upper and lower bands
+          </label>
+          <p className="text-[10px] text-slate-500 -mt-2 mb-4 px-1">
+            {strategy.bandType === 'relative'
+              ? `Bands are a share of each target weight: a 50% target with a ${(strategy.rebalanceThreshold * 100).toFixed(1)}% upper band trades above ${(50 * (1 + strategy.rebalanceThreshold)).toFixed(1)}%.`
+              : 'Bands are in weight points around each target weight.'}
+          </p>
+        </>
+      )}
+      <div className="mb-4">
+        <label className="text-xs font-medium text-slate-300 mb-1.5 block">Rebalance To</label>
+        <select
+          value={strategy.rebalanceTo}
+          onChange={(e) => setStrategy((p: StrategyConfig) => ({ ...p, rebalanceTo: e.target.value as RebalanceTarget }))}
+          className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none"
+        >
+          <option value="target">Target (full rebalance)</option>
+          <option value="bandEdge">Nearest band edge</option>
+          <option value="partial">Part of the gap</option>
+        </select>
+      </div>
+      {strategy.rebalanceTo === 'partial' && (
+        <NumberControl label="Share of Gap Traded" value={strategy.partialRebalanceFraction} min={0.05} max={1.0} step={0.05} isPercentage={true} onChange={(v: number) => setStrategy((p: StrategyConfig) => ({ ...p, partialRebalanceFraction: Math.max(0, Math.min(1, v)) }))} />
+      )}
+      <NumberControl label="Min Days Between Rebalances" value={strategy.minDaysBetweenRebalances} min={0} max={365} step={1} onChange={(v: number) => setStrategy((p: StrategyConfig) => ({ ...p, minDaysBetweenRebalances: Math.max(0, Math.round(v)) }))} />
 
       <NumberControl label="Transaction Fee" value={strategy.transactionFeeRate} min={0.0} max={0.1} step={0.0001} isPercentage={true} onChange={(v: number) => setStrategy((p: StrategyConfig) => ({ ...p, transactionFeeRate: v }))} />
+      <div className="grid grid-cols-2 gap-2">
+        <NumberControl label="Bid/Ask Spread" value={strategy.spread} min={0.0} max={0.05} step={0.0005} isPercentage={true} onChange={(v: number) => setStrategy((p: StrategyConfig) => ({ ...p, spread: Math.max(0, v) }))} />
+        <NumberControl label="Fixed Fee / Trade" value={strategy.fixedFee} min={0} max={100} step={0.5} prefix="$" onChange={(v: number) => setStrategy((p: StrategyConfig) => ({ ...p, fixedFee: Math.max(0, v) }))} />
+        <NumberControl label="Slippage Impact" value={strategy.slippageImpact} min={0} max={5} step={0.05} onChange={(v: number) => setStrategy((p: StrategyConfig) => ({ ...p, slippageImpact: Math.max(0, v) }))} />
+        <NumberControl label="Daily Liquidity" value={strategy.dailyLiquidity} min={1000} max={100000000} step={10000} prefix="$" onChange={(v: number) => setStrategy((p: StrategyConfig) => ({ ...p, dailyLiquidity: Math.max(0, v) }))} />
+      </div>
+      <p className="text-[10px] text-slate-500 -mt-2 mb-4 px-1">
+        {strategy.dailyLiquidity > 0
+          ? `A trade worth 10% of daily liquidity fills ${(strategy.slippageImpact * 10).toFixed(2)}% beyond half the spread.`
+          : 'Slippage is off while daily liquidity is 0.'}
+      </p>
+      <NumberControl label="Minimum Trade Size" value={strategy.minTradeNotional} min={0} max={10000} step={10} prefix="$" onChange={(v: number) => setStrategy((p: StrategyConfig) => ({ ...p, minTradeNotional: Math.max(0, v) }))} />
+      <label className="flex items-center gap-2 mb-4 text-xs text-slate-300 cursor-pointer">
+        <input type="checkbox" checked={strategy.wholeUnits} onChange={(e) => setStrategy((p: StrategyConfig) => ({ ...p, wholeUnits: e.target.checked }))} className="accent-indigo-500" />
+        Whole units only (no fractional shares)
+      </label>
+      <NumberControl label="Risk-Free Rate (for Sharpe/Sortino)" value={strategy.riskFreeRate} min={0.0} max={0.2} step={0.0025} isPercentage={true} onChange={(v: number) => setStrategy((p: StrategyConfig) => ({ ...p, riskFreeRate: v }))} />
+
+      <div className="border-t border-slate-800 my-4"></div>
+
+      <NumberControl label="Cash Yield (Annual)" value={strategy.cashYield} min={-0.05} max={0.2} step={0.0025} isPercentage={true} onChange={(v: number) => setStrategy((p: StrategyConfig) => ({ ...p, cashYield: v }))} />
+      <NumberControl label="Asset Yield (Dividend / Staking)" value={strategy.assetYield} min={0.0} max={0.2} step={0.0025} isPercentage={true} onChange={(v: number) => setStrategy((p: StrategyConfig) => ({ ...p, assetYield: Math.max(0, v) }))} />
+      <div className="mb-4">
+        <div className="flex bg-slate-800 p-1 rounded-lg border border-slate-700">
+          <button onClick={() => setStrategy((p: StrategyConfig) => ({ ...p, assetYieldMode: 'cash' }))} className={`flex-1 py-1.5 text-xs font-medium rounded transition-colors ${strategy.assetYieldMode === 'cash' ? 'bg-slate-600 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}>
+            Pay to Cash
+          </button>
+          <button onClick={() => setStrategy((p: StrategyConfig) => ({ ...p, assetYieldMode: 'reinvest' }))} className={`flex-1 py-1.5 text-xs font-medium rounded transition-colors ${strategy.assetYieldMode === 'reinvest' ? 'bg-slate-600 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}>
+            Reinvest
+          </button>
+        </div>
+      </div>
+      <NumberControl label="Borrow Rate (on negative cash)" value={strategy.borrowRate} min={0.0} max={0.3} step={0.0025} isPercentage={true} onChange={(v: number) => setStrategy((p: StrategyConfig) => ({ ...p, borrowRate: Math.max(0, v) }))} />
+      <p className="text-[10px] text-slate-500 -mt-2 mb-4 px-1">Accrued daily for both the strategy and buy & hold.</p>
+      <NumberControl label="Maintenance Margin" value={strategy.maintenanceMargin} min={0.0} max={1.0} step={0.05} isPercentage={true} onChange={(v: number) => setStrategy((p: StrategyConfig) => ({ ...p, maintenanceMargin: Math.max(0, Math.min(1, v)) }))} />
+      <p className="text-[10px] text-slate-500 -mt-2 mb-4 px-1">
+        {maxLeverage(strategy) * strategy.maintenanceMargin > 1
+          ? `A ${(maxLeverage(strategy) * 100).toFixed(0)}% exposure is already below this margin, so every re-lever is liquidated.`
+          : 'Allocations above 100% borrow cash and below 0% sell short; equity under this share of gross exposure forces liquidation.'}
+      </p>
+
+      <div className="border-t border-slate-800 my-4"></div>
+
+      <div className="mb-4">
+        <label className="text-xs font-medium text-slate-300 mb-1.5 block">Tax Lot Method</label>
+        <select
+          value={strategy.lotMethod}
+          onChange={(e) => setStrategy((p: StrategyConfig) => ({ ...p, lotMethod: e.target.value as LotMethod }))}
+          className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none"
+        >
+          <option value="FIFO">FIFO (oldest lots first)</option>
+          <option value="LIFO">LIFO (newest lots first)</option>
+          <option value="HIFO">HIFO (highest cost first)</option>
+        </select>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <NumberControl label="Short-Term Tax" value={strategy.shortTermTaxRate} min={0} max={0.6} step={0.01} isPercentage={true} onChange={(v: number) => setStrategy((p: StrategyConfig) => ({ ...p, shortTermTaxRate: Math.max(0, Math.min(1, v)) }))} />
+        <NumberControl label="Long-Term Tax" value={strategy.longTermTaxRate} min={0} max={0.6} step={0.01} isPercentage={true} onChange={(v: number) => setStrategy((p: StrategyConfig) => ({ ...p, longTermTaxRate: Math.max(0, Math.min(1, v)) }))} />
+      </div>
+      <NumberControl label="Long-Term After (Days Held)" value={strategy.longTermDays} min={0} max={1000} step={1} onChange={(v: number) => setStrategy((p: StrategyConfig) => ({ ...p, longTermDays: Math.max(0, Math.round(v)) }))} />
+      <p className="text-[10px] text-slate-500 -mt-2 mb-4 px-1">Tax is paid from cash when a sell realizes gains; losses carry forward.</p>
+
+      <div className="border-t border-slate-800 my-4"></div>
+
+      <div className="mb-4">
+        <label className="text-xs font-medium text-slate-300 mb-1.5 block">Cash Flows</label>
+        <div className="flex bg-slate-800 p-1 rounded-lg border border-slate-700">
+          <button onClick={() => setStrategy((p: StrategyConfig) => ({ ...p, cashFlowType: 'fixed' }))} className={`flex-1 py-1.5 text-xs font-medium rounded transition-colors ${strategy.cashFlowType === 'fixed' ? 'bg-slate-600 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}>
+            Fixed Amount
+          </button>
+          <button onClick={() => setStrategy((p: StrategyConfig) => ({ ...p, cashFlowType: 'percent' }))} className={`flex-1 py-1.5 text-xs font-medium rounded transition-colors ${strategy.cashFlowType === 'percent' ? 'bg-slate-600 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}>
+            % of Equity
+          </button>
+        </div>
+      </div>
+      {strategy.cashFlowType === 'fixed' ? (
+        <>
+          <NumberControl label="Amount per Flow (negative withdraws)" value={strategy.cashFlowAmount} min={-10000} max={10000} step={100} prefix="$" onChange={(v: number) => setStrategy((p: StrategyConfig) => ({ ...p, cashFlowAmount: v }))} />
+          <NumberControl label="Inflation Rate (Annual)" value={strategy.inflationRate} min={0.0} max={0.15} step={0.0025} isPercentage={true} onChange={(v: number) => setStrategy((p: StrategyConfig) => ({ ...p, inflationRate: v }))} />
+          <label className="flex items-center gap-2 mb-4 text-xs text-slate-300 cursor-pointer">
+            <input type="checkbox" checked={strategy.inflationAdjusted} onChange={(e) => setStrategy((p: StrategyConfig) => ({ ...p, inflationAdjusted: e.target.checked }))} className="accent-indigo-500" />
+            Grow the amount with inflation
+          </label>
+        </>
+      ) : (
+        <NumberControl label="Share of Equity per Flow (negative withdraws)" value={strategy.cashFlowPercent} min={-0.1} max={0.1} step={0.0025} isPercentage={true} onChange={(v: number) => setStrategy((p: StrategyConfig) => ({ ...p, cashFlowPercent: Math.max(-1, v) }))} />
+      )}
+      <NumberControl label="Every (Days)" value={strategy.cashFlowFrequency} min={1} max={252} step={1} onChange={(v: number) => setStrategy((p: StrategyConfig) => ({ ...p, cashFlowFrequency: Math.max(1, Math.round(v)) }))} />
+      <label className="flex items-center gap-2 mb-4 text-xs text-slate-300 cursor-pointer">
+        <input type="checkbox" checked={strategy.flowRebalancing} onChange={(e) => setStrategy((p: StrategyConfig) => ({ ...p, flowRebalancing: e.target.checked }))} className="accent-indigo-500" />
+        Rebalance with flows (buy underweight, sell overweight)
+      </label>
+      <p className="text-[10px] text-slate-500 -mt-2 mb-4 px-1">Buy & hold invests contributions in its starting mix and withdraws pro rata. Returns are time-weighted.</p>
     </section>
   </div>
 );
 
-const StatsPanel = ({ simResult }: { simResult: SimulationResult }) => {
+const MetricsTable = ({ metrics, costs, tax, carry, cashFlows, margin }: { metrics: SimulationResult['metrics'], costs: SimulationResult['costs'], tax: SimulationResult['tax'], carry: SimulationResult['carry'], cashFlows: SimulationResult['cashFlows'], margin: SimulationResult['margin'] }) => {
   const formatCurrency = (val: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(val);
   const formatPercent = (val: number) => `${(val * 100).toFixed(2)}%`;
-
-  if (!simResult) return null;
-
-  const currentStep = simResult.data[simResult.data.length - 1];
+  const formatRatio = (val: number | null) => val === null ? '—' : val.toFixed(2);
+  const formatDays = (val: number | null) => val === null ? 'Not recovered' : `${val} days`;
+  const formatRate = (val: number | null) => val === null ? '—' : formatPercent(val);
+  const formatWipeOut = (day: number | null) => day === null ? 'No' : `Day ${day}`;
+
+  const rows: { label: string, strategy: string, hodl: string }[] = [
+    { label: 'CAGR', strategy: formatPercent(metrics.strategy.cagr), hodl: formatPercent(metrics.hodl.cagr) },
+    { label: 'Annualized Volatility', strategy: formatPercent(metrics.strategy.annualVolatility), hodl: formatPercent(metrics.hodl.annualVolatility) },
+    { label: 'Sharpe Ratio', strategy: formatRatio(metrics.strategy.sharpe), hodl: formatRatio(metrics.hodl.sharpe) },
+    { label: 'Sortino Ratio', strategy: formatRatio(metrics.strategy.sortino), hodl: formatRatio(metrics.hodl.sortino) },
+    { label: 'Calmar Ratio', strategy: formatRatio(metrics.strategy.calmar), hodl: formatRatio(metrics.hodl.calmar) },
+    { label: 'Longest Drawdown', strategy: `${metrics.strategy.longestDrawdownDays} days`, hodl: `${metrics.hodl.longestDrawdownDays} days` },
+    { label: 'Recovery from Max Drawdown', strategy: formatDays(metrics.strategy.recoveryDays), hodl: formatDays(metrics.hodl.recoveryDays) },
+    { label: 'Turnover (per year)', strategy: `${(metrics.strategy.turnover * 100).toFixed(1)}%`, hodl: `${(metrics.hodl.turnover * 100).toFixed(1)}%` },
+    { label: 'Fee Drag', strategy: `${metrics.strategy.feeDragBps.toFixed(1)} bps/yr`, hodl: `${metrics.hodl.feeDragBps.toFixed(1)} bps/yr` },
+    { label: 'Tracking Error vs HODL', strategy: formatPercent(metrics.strategy.trackingError), hodl: '—' },
+    { label: 'Information Ratio vs HODL', strategy: formatRatio(metrics.strategy.informationRatio), hodl: '—' },
+    { label: 'Commission', strategy: formatCurrency(costs.commission), hodl: '—' },
+    { label: 'Fixed Fees', strategy: formatCurrency(costs.fixedFees), hodl: '—' },
+    { label: 'Spread Cost', strategy: formatCurrency(costs.spread), hodl: '—' },
+    { label: 'Slippage Cost', strategy: formatCurrency(costs.slippage), hodl: '—' },
+    { label: 'Realized Gains (Short / Long)', strategy: `${formatCurrency(tax.strategy.realizedShortTerm)} / ${formatCurrency(tax.strategy.realizedLongTerm)}`, hodl: '—' },
+    { label: 'Taxes Paid', strategy: formatCurrency(tax.strategy.taxesPaid), hodl: formatCurrency(tax.hodl.taxesPaid) },
+    { label: 'Unrealized Tax Liability', strategy: formatCurrency(tax.strategy.unrealizedLiability), hodl: formatCurrency(tax.hodl.unrealizedLiability) },
+    { label: 'After-Tax Equity (if liquidated)', strategy: formatCurrency(tax.strategy.afterTaxValue), hodl: formatCurrency(tax.hodl.afterTaxValue) },
+    { label: 'After-Tax Return (if liquidated)', strategy: formatPercent(tax.strategy.afterTaxReturn), hodl: formatPercent(tax.hodl.afterTaxReturn) },
+    { label: 'Cash Interest Earned', strategy: formatCurrency(carry.strategy.cashInterest), hodl: formatCurrency(carry.hodl.cashInterest) },
+    { label: 'Asset Yield Income', strategy: formatCurrency(carry.strategy.assetIncome), hodl: formatCurrency(carry.hodl.assetIncome) },
+    { label: 'Borrowing Cost', strategy: formatCurrency(carry.strategy.borrowCost), hodl: formatCurrency(carry.hodl.borrowCost) },
+    { label: 'Contributions', strategy: formatCurrency(cashFlows.strategy.contributions), hodl: formatCurrency(cashFlows.hodl.contributions) },
+    { label: 'Withdrawals', strategy: formatCurrency(cashFlows.strategy.withdrawals), hodl: formatCurrency(cashFlows.hodl.withdrawals) },
+    { label: 'Time-Weighted Return', strategy: formatPercent(cashFlows.strategy.timeWeightedReturn), hodl: formatPercent(cashFlows.hodl.timeWeightedReturn) },
+    { label: 'Money-Weighted Return (IRR, annual)', strategy: formatRate(cashFlows.strategy.moneyWeightedReturn), hodl: formatRate(cashFlows.hodl.moneyWeightedReturn) },
+    { label: 'Margin Liquidations', strategy: `${margin.strategy.liquidations}`, hodl: `${margin.hodl.liquidations}` },
+    { label: 'Wiped Out', strategy: formatWipeOut(margin.strategy.wipedOutDay), hodl: formatWipeOut(margin.hodl.wipedOutDay) }
+  ];
 
   return (
-    <div className="h-auto min-h-[140px] p-6 grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4 bg-slate-950 z-10">
-      <MetricCard
-        label="Strategy Equity"
-        value={formatCurrency(currentStep.strategyValue)}
-        subValue={`${formatPercent(simResult.strategyReturn)} Return`}
-        type={simResult.strategyReturn > simResult.hodlReturn ? 'good' : 'neutral'}
-        icon={DollarSign}
-      />
-      <MetricCard
-        label="Buy & Hold Equity"
-        value={formatCurrency(currentStep.hodlValue)}
-        subValue={`${formatPercent(simResult.hodlReturn)} Return`}
-        icon={Maximize2}
-      />
-      <MetricCard
-        label="Alpha (Strategy vs HODL)"
-        value={formatCurrency(currentStep.strategyValue - currentStep.hodlValue)}
-        subValue={`${formatPercent(simResult.strategyReturn - simResult.hodlReturn)} Diff`}
-        type={simResult.strategyReturn >= simResult.hodlReturn ? 'good' : 'bad'}
-        icon={TrendingUp}
-      />
-      <MetricCard
-        label="Max Drawdown"
-        value={formatPercent(simResult.maxDrawdownStrategy)}
-        subValue={`HODL: ${formatPercent(simResult.maxDrawdownHodl)}`}
-        type={simResult.maxDrawdownStrategy < simResult.maxDrawdownHodl ? 'good' : 'bad'}
-        icon={TrendingDown}
-      />
-      <MetricCard
-        label="Execution Stats"
-        value={`${simResult.totalRebalances} Trades`}
-        subValue={`Fees: ${formatCurrency(simResult.totalFees)}`}
-        icon={RefreshCw}
-      />
-    </div>
+    <table className="w-full text-xs text-slate-300">
+      <thead>
+        <tr className="text-slate-500 border-b border-slate-800">
+          <th className="text-left font-medium py-2">Metric</th>
+          <th className="text-right font-medium py-2">Strategy</th>
+          <th className="text-right font-medium py-2">Buy & Hold</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(row => (
+          <tr key={row.label} className="border-b border-slate-800/50">
+            <td className="py-2">{row.label}</td>
+            <td className="text-right py-2 text-slate-100">{row.strategy}</td>
+            <td className="text-right py-2">{row.hodl}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
   );
 };
 
-const ChartsPanel = ({ simResult, strategy }: { simResult: SimulationResult, strategy: StrategyConfig }) => {
+// One compared strategy's run; `index` is its position in the strategy list and picks its colour.
+interface StrategyComparison {
+  index: number;
+  name: string;
+  result: SimulationResult;
+}
+
+const ComparisonTable = ({ comparisons, activeIndex, onSelect }: { comparisons: StrategyComparison[], activeIndex: number, onSelect: (index: number) => void }) => {
+  const formatCurrency = (val: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(val);
+  const formatPercent = (val: number) => `${(val * 100).toFixed(2)}%`;
+  const formatRatio = (val: number | null) => val === null ? '—' : val.toFixed(2);
+  // Buy & hold depends on the target allocation, so the row shows the selected strategy's benchmark.
+  const benchmark = (comparisons.find(c => c.index === activeIndex) ?? comparisons[0]).result;
+  const lastHodl = benchmark.data[benchmark.data.length - 1].hodlValue;
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 overflow-x-auto">
+      <table className="w-full text-xs text-slate-300">
+        <thead>
+          <tr className="text-slate-500 border-b border-slate-800">
+            <th className="text-left font-medium py-2">Strategy</th>
+            <th className="text-right font-medium py-2">Final Equity</th>
+            <th className="text-right font-medium py-2">Return</th>
+            <th className="text-right font-medium py-2">Alpha vs HODL</th>
+            <th className="text-right font-medium py-2">Max Drawdown</th>
+            <th className="text-right font-medium py-2">Sharpe</th>
+            <th className="text-right font-medium py-2">Trades</th>
+            <th className="text-right font-medium py-2">Fees</th>
+          </tr>
+        </thead>
+        <tbody>
+          {comparisons.map(({ index, name, result }) => {
+            const alpha = result.strategyReturn - result.hodlReturn;
+            return (
+              <tr key={index} onClick={() => onSelect(index)} className={`border-b border-slate-800/50 cursor-pointer hover:bg-slate-800/50 ${index === activeIndex ? 'text-slate-100' : ''}`}>
+                <td className="py-2">
+                  <span className="flex items-center gap-1.5">
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: STRATEGY_COLORS[index % STRATEGY_COLORS.length] }}></span>
+                    {name}
+                  </span>
+                </td>
+                <td className="text-right py-2">{formatCurrency(result.data[result.data.length - 1].strategyValue)}</td>
+                <td className="text-right py-2">{formatPercent(result.strategyReturn)}</td>
+                <td className={`text-right py-2 ${alpha >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{formatPercent(alpha)}</td>
+                <td className="text-right py-2">{formatPercent(result.maxDrawdownStrategy)}</td>
+                <td className="text-right py-2">{formatRatio(result.metrics.strategy.sharpe)}</td>
+                <td className="text-right py-2">{result.totalRebalances}</td>
+                <td className="text-right py-2">{formatCurrency(result.totalFees)}</td>
+              </tr>
+            );
+          })}
+          <tr className="text-slate-400">
+            <td className="py-2">
+              <span className="flex items-center gap-1.5"><span className="w-2 h-2 rounded-full bg-slate-500"></span> Buy & Hold</span>
+            </td>
+            <td className="text-right py-2">{formatCurrency(lastHodl)}</td>
+            <td className="text-right py-2">{formatPercent(benchmark.hodlReturn)}</td>
+            <td className="text-right py-2">—</td>
+            <td className="text-right py-2">{formatPercent(benchmark.maxDrawdownHodl)}</td>
+            <td className="text-right py-2">{formatRatio(benchmark.metrics.hodl.sharpe)}</td>
+            <td className="text-right py-2">0</td>
+            <td className="text-right py-2">{formatCurrency(0)}</td>
+          </tr>
+        </tbody>
+      </table>
+      <p className="text-[10px] text-slate-500 mt-2">Alpha is measured against each strategy's own buy & hold at its target allocation. Click a row to edit that strategy.</p>
+    </div>
+  );
+};
+
+const StatsPanel = ({ simResult, comparisons, activeIndex, onSelect }: { simResult: SimulationResult, comparisons: StrategyComparison[], activeIndex: number, onSelect: (index: number) => void }) => {
+  const formatCurrency = (val: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(val);
+  const formatPercent = (val: number) => `${(val * 100).toFixed(2)}%`;
+  const [showMetrics, setShowMetrics] = useState(false);
+
+  if (!simResult) return null;
+
+  const currentStep = simResult.data[simResult.data.length - 1];
+
+  return (
+    <div className="bg-slate-950 z-10">
+      {comparisons.length > 1 ? (
+        <div className="p-6 pb-3">
+          <ComparisonTable comparisons={comparisons} activeIndex={activeIndex} onSelect={onSelect} />
+        </div>
+      ) : (
+        <div className="h-auto min-h-[140px] p-6 pb-3 grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+          <MetricCard
+            label="Strategy Equity"
+            value={formatCurrency(currentStep.strategyValue)}
+            subValue={`${formatPercent(simResult.strategyReturn)} Return`}
+            type={simResult.strategyReturn > simResult.hodlReturn ? 'good' : 'neutral'}
+            icon={DollarSign}
+          />
+          <MetricCard
+            label="Buy & Hold Equity"
+            value={formatCurrency(currentStep.hodlValue)}
+            subValue={`${formatPercent(simResult.hodlReturn)} Return`}
+            icon={Maximize2}
+          />
+          <MetricCard
+            label="Alpha (Strategy vs HODL)"
+            value={formatCurrency(currentStep.strategyValue - currentStep.hodlValue)}
+            subValue={`${formatPercent(simResult.strategyReturn - simResult.hodlReturn)} Diff`}
+            type={simResult.strategyReturn >= simResult.hodlReturn ? 'good' : 'bad'}
+            icon={TrendingUp}
+          />
+          <MetricCard
+            label="Max Drawdown"
+            value={formatPercent(simResult.maxDrawdownStrategy)}
+            subValue={`HODL: ${formatPercent(simResult.maxDrawdownHodl)}`}
+            type={simResult.maxDrawdownStrategy < simResult.maxDrawdownHodl ? 'good' : 'bad'}
+            icon={TrendingDown}
+          />
+          <MetricCard
+            label="Execution Stats"
+            value={`${simResult.totalRebalances} Trades`}
+            subValue={`Fees: ${formatCurrency(simResult.totalFees)}`}
+            icon={RefreshCw}
+          />
+        </div>
+      )}
+      <div className="px-6 pb-3">
+        <button onClick={() => setShowMetrics(v => !v)} className="text-xs text-slate-400 hover:text-slate-200 flex items-center gap-1 transition-colors">
+          {showMetrics ? <ChevronUp size={12} /> : <ChevronDown size={12} />} {showMetrics ? 'Hide' : 'Show'} risk-adjusted metrics{comparisons.length > 1 ? ` (${comparisons.find(c => c.index === activeIndex)?.name ?? 'selected strategy'})` : ''}
+        </button>
+        {showMetrics && (
+          <div className="mt-3 bg-slate-900 border border-slate-800 rounded-xl p-4 max-h-[40vh] overflow-y-auto">
+            <MetricsTable metrics={simResult.metrics} costs={simResult.costs} tax={simResult.tax} carry={simResult.carry} cashFlows={simResult.cashFlows} margin={simResult.margin} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const RegimeTable = ({ regimeStats }: { regimeStats: RegimeStats[] }) => {
+  const formatPercent = (val: number) => `${(val * 100).toFixed(2)}%`;
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 shadow-sm overflow-x-auto">
+      <div className="mb-3">
+        <h3 className="text-sm font-medium text-slate-300">Alpha by Regime</h3>
+        <p className="text-xs text-slate-500">Returns compounded over only the days spent in each regime</p>
+      </div>
+      <table className="w-full text-xs text-slate-300">
+        <thead>
+          <tr className="text-slate-500 border-b border-slate-800">
+            <th className="text-left font-medium py-2">Regime</th>
+            <th className="text-right font-medium py-2">Days</th>
+            <th className="text-right font-medium py-2">Strategy</th>
+            <th className="text-right font-medium py-2">Buy & Hold</th>
+            <th className="text-right font-medium py-2">Alpha</th>
+          </tr>
+        </thead>
+        <tbody>
+          {regimeStats.map(r => (
+            <tr key={r.regime} className="border-b border-slate-800/50">
+              <td className="py-2">
+                <span className="flex items-center gap-1.5"><span className="w-2 h-2 rounded-sm" style={{ backgroundColor: REGIME_COLORS[r.regime % REGIME_COLORS.length] }}></span> {r.name}</span>
+              </td>
+              <td className="text-right py-2">{r.days}</td>
+              <td className="text-right py-2">{formatPercent(r.strategyReturn)}</td>
+              <td className="text-right py-2">{formatPercent(r.hodlReturn)}</td>
+              <td className={`text-right py-2 ${r.alpha >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{formatPercent(r.alpha)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+// Source series against generated returns; a bootstrap that works keeps these close, skew and tails included.
+const BootstrapMomentsTable = ({ moments, assetName, generatedLabel }: { moments: BootstrapMoments, assetName: string, generatedLabel: string }) => {
+  const formatPercent = (val: number) => `${(val * 100).toFixed(2)}%`;
+  const rows: { label: string, format: (m: ReturnMoments) => string }[] = [
+    { label: 'Mean (Annual)', format: m => formatPercent(m.mean) },
+    { label: 'Volatility (Annual)', format: m => formatPercent(m.volatility) },
+    { label: 'Skew', format: m => m.skew.toFixed(2) },
+    { label: 'Excess Kurtosis', format: m => m.kurtosis.toFixed(2) },
+    { label: 'Daily Returns', format: m => m.count.toLocaleString() }
+  ];
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 shadow-sm overflow-x-auto">
+      <div className="mb-3">
+        <h3 className="text-sm font-medium text-slate-300">Bootstrap Return Moments: {assetName}</h3>
+        <p className="text-xs text-slate-500">Daily log returns of the source series vs. the generated {generatedLabel}</p>
+      </div>
+      <table className="w-full text-xs text-slate-300">
+        <thead>
+          <tr className="text-slate-500 border-b border-slate-800">
+            <th className="text-left font-medium py-2">Moment</th>
+            <th className="text-right font-medium py-2">Source</th>
+            <th className="text-right font-medium py-2">Generated</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.label} className="border-b border-slate-800/50">
+              <td className="py-2">{row.label}</td>
+              <td className="text-right py-2">{row.format(moments.source)}</td>
+              <td className="text-right py-2">{row.format(moments.generated)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+// A chart card that folds down to its header.
+const CollapsiblePanel = ({ title, icon, open, onToggle, children }: { title: string, icon: React.ReactNode, open: boolean, onToggle: () => void, children: React.ReactNode }) => (
+  <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 shadow-sm">
+    <button onClick={onToggle} className="w-full flex justify-between items-center text-sm font-medium text-slate-300 hover:text-slate-100 transition-colors">
+      <span className="flex items-center gap-2">{icon} {title}</span>
+      {open ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+    </button>
+    {open && <div className="mt-4">{children}</div>}
+  </div>
+);
+
+// Walks from buy & hold to the strategy return one attribution part at a time. Each bar floats from the running
+// total before it to the one after; exposure and timing drop out when they are both zero (the fixed mode).
+const AttributionWaterfall = ({ attribution }: { attribution: AlphaAttribution }) => {
+  const formatPercent = (v: number) => `${(v * 100).toFixed(2)}%`;
+  const formatRate = (v: number | null) => v === null ? 'n/a' : `${(v * 100).toFixed(2)}%/yr`;
+  const showDynamic = attribution.exposure !== 0 || attribution.timing !== 0;
+  const steps: { label: string, value: number }[] = [
+    ...(showDynamic ? [{ label: 'Exposure', value: attribution.exposure }] : []),
+    { label: 'Rebalancing', value: attribution.rebalancingPremium },
+    ...(showDynamic ? [{ label: 'Timing', value: attribution.timing }] : []),
+    { label: 'Costs', value: attribution.costDrag },
+    { label: 'Other', value: attribution.other }
+  ];
+  let running = attribution.hodlReturn;
+  const bars = [
+    { label: 'Buy & Hold', range: [0, attribution.hodlReturn], value: attribution.hodlReturn, color: '#64748b' },
+    ...steps.map(({ label, value }) => {
+      const start = running;
+      running += value;
+      return { label, range: [start, running], value, color: value >= 0 ? '#10b981' : '#f43f5e' };
+    }),
+    { label: 'Strategy', range: [0, attribution.strategyReturn], value: attribution.strategyReturn, color: '#818cf8' }
+  ];
+
+  return (
+    <>
+      <div className="h-[250px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={bars}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
+            <XAxis dataKey="label" stroke="#475569" tick={{ fontSize: 12 }} interval={0} />
+            <YAxis stroke="#475569" tick={{ fontSize: 12 }} tickFormatter={(v) => `${(v * 100).toFixed(0)}%`} />
+            <ReferenceLine y={0} stroke="#475569" />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', color: '#f1f5f9' }}
+              cursor={{ fill: '#1e293b' }}
+              formatter={(_, __, item) => formatPercent(item.payload.value)}
+            />
+            <Bar dataKey="range" name="Return">
+              {bars.map(bar => <Cell key={bar.label} fill={bar.color} />)}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+      <p className="text-[10px] text-slate-500 mt-2">
+        {showDynamic && `Exposure: buy & hold at the ${formatPercent(attribution.averageTarget)} average target against buy & hold at the target allocation. Timing: the dynamic target against a fixed mix at that average. `}
+        Rebalancing: the cost-free fixed mix against buy & hold. Over its holdings' own log growth the mix earned {formatRate(attribution.realizedPremiumRate)}, against {formatRate(attribution.theoreticalPremiumRate)} from constant-mix GBM theory.
+        Costs: total fees over initial capital. Other: what is left, e.g. fees compounding.
+      </p>
+    </>
+  );
+};
+
+type LedgerSortKey = 'day' | 'action' | 'trigger' | 'price' | 'tradeAmount' | 'fee' | 'allocationBefore' | 'allocation' | 'targetAllocation' | 'rsi' | 'adx' | 'tradePnl';
+
+// Every trading step of the run. Headers sort (again to reverse), the selects filter, and clicking a row selects
+// its day on the charts.
+const TradeLedger = ({ data, strategy, xKey, selectedDay, onSelect }: { data: StepData[], strategy: StrategyConfig, xKey: 'date' | 'day', selectedDay: number | null, onSelect: (day: number) => void }) => {
+  const [sort, setSort] = useState<{ key: LedgerSortKey, descending: boolean }>({ key: 'day', descending: false });
+  const [actionFilter, setActionFilter] = useState<'all' | StepData['action']>('all');
+  const [triggerFilter, setTriggerFilter] = useState<'all' | TradeTrigger>('all');
+  const formatCurrency = (val: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 2 }).format(val);
+  const formatPercent = (val?: number) => val === undefined ? '–' : `${(val * 100).toFixed(1)}%`;
+  const formatIndicator = (val?: number) => val === undefined ? '–' : val.toFixed(1);
+  const triggerLabels: Record<TradeTrigger, string> = {
+    band: strategy.rebalanceType === 'timeBand' ? 'Band (calendar check)' : 'Band breach',
+    calendar: 'Calendar',
+    flow: 'Cash flow',
+    liquidation: 'Margin call'
+  };
+  const actionColors: Record<StepData['action'], string> = { buy: 'text-emerald-400', sell: 'text-rose-400', liquidate: 'text-amber-400', hold: 'text-slate-400' };
+
+  const columns: { key: LedgerSortKey, label: string, align: 'left' | 'right', format: (step: StepData) => React.ReactNode }[] = [
+    { key: 'day', label: xKey === 'date' ? 'Date' : 'Day', align: 'left', format: step => xKey === 'date' ? step.date : step.day },
+    { key: 'action', label: 'Action', align: 'left', format: step => <span className={`capitalize ${actionColors[step.action]}`}>{step.action}</span> },
+    { key: 'trigger', label: 'Trigger', align: 'left', format: step => step.trigger ? triggerLabels[step.trigger] : '–' },
+    { key: 'price', label: 'Price', align: 'right', format: step => step.price.toFixed(2) },
+    { key: 'tradeAmount', label: 'Notional', align: 'right', format: step => formatCurrency(step.tradeAmount ?? 0) },
+    { key: 'fee', label: 'Fee', align: 'right', format: step => formatCurrency(step.fee ?? 0) },
+    { key: 'allocationBefore', label: 'Alloc Before', align: 'right', format: step => formatPercent(step.allocationBefore) },
+    { key: 'allocation', label: 'Alloc After', align: 'right', format: step => formatPercent(step.allocation) },
+    { key: 'targetAllocation', label: 'Target', align: 'right', format: step => formatPercent(step.targetAllocation) },
+    { key: 'rsi', label: 'RSI', align: 'right', format: step => formatIndicator(step.rsi) },
+    { key: 'adx', label: 'ADX', align: 'right', format: step => formatIndicator(step.adx) },
+    {
+      key: 'tradePnl', label: 'P&L vs Holding', align: 'right', format: step => step.tradePnl === undefined ? '–' : (
+        <span className={step.tradePnl >= 0 ? 'text-emerald-400' : 'text-rose-400'}>{formatCurrency(step.tradePnl)}</span>
+      )
+    }
+  ];
+
+  const trades = data.filter(step => step.action !== 'hold');
+  const rows = trades
+    .filter(step => (actionFilter === 'all' || step.action === actionFilter) && (triggerFilter === 'all' || step.trigger === triggerFilter))
+    .sort((a, b) => {
+      const x = a[sort.key];
+      const y = b[sort.key];
+      // Missing values (e.g. an indicator still warming up) sort last either way.
+      if (x === undefined || y === undefined) return x === y ? a.day - b.day : x === undefined ? 1 : -1;
+      const order = typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y));
+      return (sort.descending ? -order : order) || a.day - b.day;
+    });
+  const totalPnl = rows.reduce((sum, step) => sum + (step.tradePnl ?? 0), 0);
+  const selectClassName = 'bg-slate-800 border border-slate-700 rounded py-1 px-2 text-xs text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none';
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-3 mb-2 text-xs text-slate-400">
+        <select value={actionFilter} onChange={(e) => setActionFilter(e.target.value as 'all' | StepData['action'])} className={selectClassName}>
+          <option value="all">All actions</option>
+          <option value="buy">Buy</option>
+          <option value="sell">Sell</option>
+          <option value="liquidate">Liquidate</option>
+        </select>
+        <select value={triggerFilter} onChange={(e) => setTriggerFilter(e.target.value as 'all' | TradeTrigger)} className={selectClassName}>
+          <option value="all">All triggers</option>
+          {(Object.keys(triggerLabels) as TradeTrigger[]).map(trigger => (
+            <option key={trigger} value={trigger}>{triggerLabels[trigger]}</option>
+          ))}
+        </select>
+        <span>{rows.length} of {trades.length} trades; P&L vs holding {formatCurrency(totalPnl)}</span>
+      </div>
+      <p className="text-xs text-slate-500 mb-2">
+        Price is the first asset's. P&L vs holding values the units each trade moved at the next trade's prices (or the last day's), less what the trade cost; carry and tax are left out.
+      </p>
+      <div className="max-h-[400px] overflow-auto">
+        <table className="w-full text-xs text-slate-300">
+          <thead className="sticky top-0 bg-slate-900">
+            <tr className="text-slate-500 border-b border-slate-800">
+              {columns.map(column => (
+                <th key={column.key} className={`${column.align === 'left' ? 'text-left' : 'text-right'} font-medium py-2 px-1 whitespace-nowrap`}>
+                  <button
+                    onClick={() => setSort(current => ({ key: column.key, descending: current.key === column.key ? !current.descending : false }))}
+                    className="hover:text-slate-200 transition-colors inline-flex items-center gap-0.5"
+                  >
+                    {column.label}
+                    {sort.key === column.key && (sort.descending ? <ChevronDown size={10} /> : <ChevronUp size={10} />)}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(step => (
+              <tr
+                key={step.day}
+                onClick={() => onSelect(step.day)}
+                className={`border-b border-slate-800/50 cursor-pointer transition-colors ${selectedDay === step.day ? 'bg-amber-500/10' : 'hover:bg-slate-800/50'}`}
+              >
+                {columns.map(column => (
+                  <td key={column.key} className={`${column.align === 'left' ? 'text-left' : 'text-right'} py-1.5 px-1 whitespace-nowrap`}>{column.format(step)}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {rows.length === 0 && <p className="text-xs text-slate-500 py-4 text-center">No trades match the filters.</p>}
+      </div>
+    </>
+  );
+};
+
+const ChartsPanel = ({ simResult, strategy, assetNames, comparisons, activeIndex, volatilityPaths, scenario, bootstrap, attributionOpen, onToggleAttribution }: { simResult: SimulationResult, strategy: StrategyConfig, assetNames: string[], comparisons: StrategyComparison[], activeIndex: number, volatilityPaths: number[][] | null, scenario: MarketConfig | null, bootstrap: { assetIndex: number, moments: BootstrapMoments } | null, attributionOpen: boolean, onToggleAttribution: () => void }) => {
+  const [showVolatility, setShowVolatility] = useState(false);
+  const [zoom, setZoom] = useState<{ startIndex: number, endIndex: number } | null>(null);
+  const [openPanels, setOpenPanels] = useState(() => ({ rsi: strategy.allocationMode === 'rsi', adx: strategy.allocationMode === 'adx', drawdown: true, rolling: false, ledger: true }));
+  const [rollingWindow, setRollingWindow] = useState(63);
+  const [rollingView, setRollingView] = useState<'return' | 'volatility' | 'alpha'>('return');
+  const [selectedDay, setSelectedDay] = useState<number | null>(null);
+  const isMultiAsset = assetNames.length > 1;
+  const hasBars = simResult.data[0]?.high !== undefined;
+  const isComparing = comparisons.length > 1;
+  const activeColor = STRATEGY_COLORS[activeIndex % STRATEGY_COLORS.length];
+  // Other strategies share the selected one's path, so their steps line up by day.
+  const others = comparisons.filter(c => c.index !== activeIndex);
+  const activeName = comparisons.find(c => c.index === activeIndex)?.name ?? 'Rebalancing Strategy';
+  // Imported series carry calendar dates; simulated paths only have a day counter.
+  const xKey = simResult.data[0]?.date ? 'date' : 'day';
+  const formatStepLabel = (label: string | number) => xKey === 'date' ? String(label) : `Day ${label}`;
   const formatCurrency = (val: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(val);
 
   const RebalanceDot = (props: any) => {
     const { cx, cy, payload } = props;
+    if (payload.action === 'liquidate' || payload.hodlLiquidated) {
+      return (
+        <g>
+          {payload.action === 'liquidate' && <path d={`M${cx - 5},${cy - 5}L${cx + 5},${cy + 5}M${cx - 5},${cy + 5}L${cx + 5},${cy - 5}`} stroke="#f59e0b" strokeWidth={2.5} />}
+          {payload.hodlLiquidated && <circle cx={cx} cy={cy} r={7} fill="none" stroke="#94a3b8" strokeWidth={1.5} />}
+        </g>
+      );
+    }
     if (payload.action === 'buy') return <circle cx={cx} cy={cy} r={4} fill="#10b981" stroke="#fff" strokeWidth={1} />;
     if (payload.action === 'sell') return <circle cx={cx} cy={cy} r={4} fill="#f43f5e" stroke="#fff" strokeWidth={1} />;
     return null;
   };
 
+
   if (!simResult) return null;
 
+  // Every time-series chart shows the brushed range and shares one crosshair; a range left over from a longer
+  // run falls back to the whole run.
+  const lastIndex = simResult.data.length - 1;
+  const range = zoom && zoom.endIndex <= lastIndex ? zoom : { startIndex: 0, endIndex: lastIndex };
+  const isZoomed = range.startIndex > 0 || range.endIndex < lastIndex;
+  const visibleData = isZoomed ? simResult.data.slice(range.startIndex, range.endIndex + 1) : simResult.data;
+  const sync = { syncId: 'run', syncMethod: 'value' as const };
+  const togglePanel = (key: keyof typeof openPanels) => setOpenPanels(p => ({ ...p, [key]: !p[key] }));
+  const rolling = openPanels.rolling ? computeRollingMetrics(simResult.data, rollingWindow) : [];
+  const tooltipStyle = { backgroundColor: '#0f172a', borderColor: '#334155', color: '#f1f5f9' };
+  const formatPercent = (v: number) => (v * 100).toFixed(2) + '%';
+  // The ledger's selected trade, marked on every chart; selecting one outside the zoomed range shows the whole run.
+  const highlightLine = () => selectedDay !== null && selectedDay <= lastIndex && (
+    <ReferenceLine x={simResult.data[selectedDay][xKey]} stroke="#fbbf24" strokeWidth={1.5} ifOverflow="hidden" />
+  );
+  const selectTrade = (day: number) => {
+    if (day < range.startIndex || day > range.endIndex) setZoom(null);
+    setSelectedDay(current => current === day ? null : day);
+  };
+
+  // Calendar-only rebalancing ignores the bands unless it trades to their edges.
+  const hasBands = strategy.rebalanceType !== 'time' || strategy.rebalanceTo === 'bandEdge';
+
+  // Marks the step a portfolio's equity hit zero; it takes no trades or cash flows after it, so it stays at zero.
+  const wipeOutLine = (day: number | null, color: string) => day !== null && (
+    <ReferenceLine x={xKey === 'date' ? simResult.data[day].date : day} stroke={color} strokeDasharray="2 2" label={{ value: 'Wiped out', fill: color, fontSize: 10, position: 'insideTopRight' }} />
+  );
+
+  // Contiguous runs of one regime; each run is shaded up to where the next one starts.
+  const regimeSegments: { regime: number, x1: string | number, x2: string | number }[] = [];
+  simResult.data.forEach(step => {
+    if (step.regime === undefined) return;
+    const x = step[xKey] as string | number;
+    const last = regimeSegments[regimeSegments.length - 1];
+    if (last) last.x2 = x;
+    if (!last || last.regime !== step.regime) regimeSegments.push({ regime: step.regime, x1: x, x2: x });
+  });
+  const regimeAreas = () => regimeSegments.map((seg, i) => (
+    <ReferenceArea key={`regime-${i}`} x1={seg.x1} x2={seg.x2} fill={REGIME_COLORS[seg.regime % REGIME_COLORS.length]} fillOpacity={0.08} stroke="none" ifOverflow="hidden" />
+  ));
+  const regimeStats = simResult.regimeStats ?? [];
+
+  // Scenario markers use day numbers, which is what the x axis shows for simulated paths.
+  const lastDay = simResult.data.length - 1;
+  let segmentEnd = 0;
+  const segmentBoundaries = (scenario?.segments ?? []).slice(0, -1).map(seg => (segmentEnd += Math.max(1, Math.round(seg.days))));
+  const scenarioMarkers = () => [
+    ...segmentBoundaries.map((day, i) => (
+      <ReferenceLine key={`segment-${i}`} x={day} stroke="#22d3ee" strokeDasharray="3 3" strokeOpacity={0.6} ifOverflow="hidden" />
+    )),
+    ...(scenario?.shocks ?? []).filter(shock => shock.day <= lastDay).map((shock, i) => shock.kind === 'gap' ? (
+      <ReferenceLine key={`shock-${i}`} x={shock.day} stroke="#f43f5e" strokeOpacity={0.7} ifOverflow="hidden" />
+    ) : (
+      <ReferenceArea key={`shock-${i}`} x1={shock.day} x2={Math.min(lastDay, shock.day + shock.duration - 1)} fill="#f59e0b" fillOpacity={0.1} stroke="none" ifOverflow="hidden" />
+    ))
+  ];
+
   return (
     <div className="flex-1 overflow-y-auto p-6 space-y-6">
 
@@ -640,54 +1510,165 @@ const ChartsPanel = ({ simResult, strategy }: { simResult: SimulationResult, str
           <h3 className="text-sm font-medium text-slate-300 flex items-center gap-2">
             <TrendingUp size={16} /> Performance Comparison
           </h3>
-          <div className="flex gap-4 text-xs">
-            <span className="flex items-center gap-1.5"><span className="w-2 h-2 rounded-full bg-emerald-500"></span> Rebalanced Strategy</span>
+          <div className="flex flex-wrap justify-end gap-4 text-xs">
+            {isComparing ? comparisons.map(c => (
+              <span key={c.index} className="flex items-center gap-1.5"><span className="w-2 h-2 rounded-full" style={{ backgroundColor: STRATEGY_COLORS[c.index % STRATEGY_COLORS.length] }}></span> {c.name}</span>
+            )) : (
+              <span className="flex items-center gap-1.5"><span className="w-2 h-2 rounded-full bg-emerald-500"></span> Rebalanced Strategy</span>
+            )}
             <span className="flex items-center gap-1.5"><span className="w-2 h-2 rounded-full bg-slate-500"></span> Buy & Hold</span>
           </div>
         </div>
+        {scenario && (
+          <div className="flex flex-wrap gap-3 text-xs mb-2 text-slate-400">
+            Scenario:
+            <span className="flex items-center gap-1.5"><span className="w-3 border-t border-dashed border-cyan-400"></span> Segment boundary</span>
+            <span className="flex items-center gap-1.5"><span className="w-3 border-t border-rose-500"></span> Price gap</span>
+            <span className="flex items-center gap-1.5"><span className="w-2 h-2 rounded-sm bg-amber-500/40"></span> Volatility spike</span>
+          </div>
+        )}
+        {regimeStats.length > 0 && (
+          <div className="flex flex-wrap gap-3 text-xs mb-2 text-slate-400">
+            Shaded regimes:
+            {regimeStats.map(r => (
+              <span key={r.regime} className="flex items-center gap-1.5"><span className="w-2 h-2 rounded-sm" style={{ backgroundColor: REGIME_COLORS[r.regime % REGIME_COLORS.length] }}></span> {r.name}</span>
+            ))}
+          </div>
+        )}
         <div className="h-[300px] w-full">
           <ResponsiveContainer width="100%" height="100%">
-            <AreaChart data={simResult.data}>
+            <AreaChart data={visibleData} {...sync}>
               <defs>
                 <linearGradient id="colorStrat" x1="0" y1="0" x2="0" y2="1">
-                  <stop offset="5%" stopColor="#10b981" stopOpacity={0.3} />
-                  <stop offset="95%" stopColor="#10b981" stopOpacity={0} />
+                  <stop offset="5%" stopColor={activeColor} stopOpacity={0.3} />
+                  <stop offset="95%" stopColor={activeColor} stopOpacity={0} />
                 </linearGradient>
               </defs>
               <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
-              <XAxis dataKey="day" stroke="#475569" tick={{ fontSize: 12 }} minTickGap={30} />
+              {regimeAreas()}
+              {scenarioMarkers()}
+              <XAxis dataKey={xKey} stroke="#475569" tick={{ fontSize: 12 }} minTickGap={30} />
+              {highlightLine()}
               <YAxis stroke="#475569" tick={{ fontSize: 12 }} domain={['auto', 'auto']} tickFormatter={(v) => `$${v / 1000}k`} />
               <Tooltip
                 contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', color: '#f1f5f9' }}
                 formatter={(val: number) => formatCurrency(val)}
               />
-              <Area type="monotone" dataKey="strategyValue" stroke="#10b981" strokeWidth={2} fillOpacity={1} fill="url(#colorStrat)" name="Rebalancing Strategy" />
+              <Area type="monotone" dataKey="strategyValue" stroke={activeColor} strokeWidth={2} fillOpacity={1} fill="url(#colorStrat)" name={isComparing ? activeName : 'Rebalancing Strategy'} />
+              {others.map(c => (
+                <Line key={c.index} type="monotone" dataKey={(d: StepData) => c.result.data[d.day]?.strategyValue} stroke={STRATEGY_COLORS[c.index % STRATEGY_COLORS.length]} strokeWidth={1.5} dot={false} name={c.name} />
+              ))}
               <Line type="monotone" dataKey="hodlValue" stroke="#64748b" strokeWidth={2} strokeDasharray="4 4" dot={false} name="Buy & Hold" />
+              {wipeOutLine(simResult.margin.strategy.wipedOutDay, activeColor)}
+              {wipeOutLine(simResult.margin.hodl.wipedOutDay, '#64748b')}
             </AreaChart>
           </ResponsiveContainer>
         </div>
+        <div className="flex justify-between items-center mt-2 text-xs text-slate-500">
+          <span>Drag the handles to zoom every chart; hovering any chart moves the crosshair on all of them.</span>
+          {isZoomed && (
+            <button onClick={() => setZoom(null)} className="text-slate-400 hover:text-slate-200 transition-colors">Reset zoom</button>
+          )}
+        </div>
+        <div className="h-[44px] w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={simResult.data} margin={{ top: 0, right: 5, bottom: 0, left: 5 }}>
+              <Brush
+                dataKey={xKey}
+                height={40}
+                stroke="#475569"
+                fill="#0f172a"
+                travellerWidth={8}
+                startIndex={range.startIndex}
+                endIndex={range.endIndex}
+                tickFormatter={formatStepLabel}
+                onChange={({ startIndex, endIndex }) => setZoom({ startIndex, endIndex })}
+              >
+                <LineChart>
+                  <Line type="monotone" dataKey="strategyValue" stroke={activeColor} strokeWidth={1} dot={false} />
+                  <Line type="monotone" dataKey="hodlValue" stroke="#64748b" strokeWidth={1} dot={false} />
+                </LineChart>
+              </Brush>
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
       </div>
 
+      {regimeStats.length > 0 && <RegimeTable regimeStats={regimeStats} />}
+      {bootstrap && <BootstrapMomentsTable moments={bootstrap.moments} assetName={assetNames[bootstrap.assetIndex]} generatedLabel="path" />}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Asset Price + Trades */}
         <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 shadow-sm">
           <div className="mb-4">
-            <h3 className="text-sm font-medium text-slate-300">Underlying Asset Price</h3>
-            <p className="text-xs text-slate-500">Dots indicate rebalancing events (Green=Buy, Red=Sell)</p>
+            <div className="flex justify-between items-center">
+              <h3 className="text-sm font-medium text-slate-300">{isMultiAsset ? 'Underlying Asset Prices' : 'Underlying Asset Price'}</h3>
+              {volatilityPaths && (
+                <button onClick={() => setShowVolatility(v => !v)} className="text-xs text-slate-400 hover:text-slate-200 transition-colors">
+                  {showVolatility ? 'Hide' : 'Show'} volatility
+                </button>
+              )}
+            </div>
+            <p className="text-xs text-slate-500">
+              Dots indicate rebalancing events (Green=Buy, Red=Sell)
+              {(simResult.margin.strategy.liquidations > 0 || simResult.margin.hodl.liquidations > 0) && '; amber X = strategy liquidation, grey ring = buy & hold liquidation'}
+              {hasBars && '; shading is the intraday high-low range'}
+              {openPanels.adx && `; dashed yellow is the ${strategy.indicatorPeriod}-day SMA the trend mode compares against`}
+            </p>
+            {isMultiAsset && <AssetLegend assetNames={assetNames} />}
           </div>
           <div className="h-[250px] w-full">
             <ResponsiveContainer width="100%" height="100%">
-              <ComposedChart data={simResult.data}>
+              <ComposedChart data={visibleData} {...sync}>
                 <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
-                <XAxis dataKey="day" stroke="#475569" tick={{ fontSize: 12 }} minTickGap={30} />
+                {regimeAreas()}
+                {scenarioMarkers()}
+                <XAxis dataKey={xKey} stroke="#475569" tick={{ fontSize: 12 }} minTickGap={30} />
+                {highlightLine()}
                 <YAxis stroke="#475569" tick={{ fontSize: 12 }} domain={['auto', 'auto']} />
-                <Tooltip contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', color: '#f1f5f9' }} labelFormatter={(l) => `Day ${l}`} />
-                <Line type="monotone" dataKey="price" stroke="#818cf8" strokeWidth={1.5} dot={<RebalanceDot />} />
+                <Tooltip contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', color: '#f1f5f9' }} labelFormatter={formatStepLabel} />
+                {hasBars && (
+                  <Area type="monotone" dataKey={(d: StepData) => [d.low, d.high]} stroke="none" fill={ASSET_COLORS[0]} fillOpacity={0.2} name={`${assetNames[0]} High-Low`} />
+                )}
+                <Line type="monotone" dataKey="price" stroke={ASSET_COLORS[0]} strokeWidth={1.5} dot={<RebalanceDot />} name={assetNames[0]} />
+                {openPanels.adx && (
+                  <Line type="monotone" dataKey="sma" stroke="#facc15" strokeWidth={1} strokeDasharray="4 2" dot={false} name={`SMA (${strategy.indicatorPeriod})`} />
+                )}
+                {assetNames.slice(1).map((name, k) => (
+                  <Line key={name + k} type="monotone" dataKey={(d: StepData) => d.prices[k + 1]} stroke={ASSET_COLORS[(k + 1) % ASSET_COLORS.length]} strokeWidth={1.5} dot={false} name={name} />
+                ))}
               </ComposedChart>
             </ResponsiveContainer>
           </div>
         </div>
 
+        {/* Simulated Volatility */}
+        {showVolatility && volatilityPaths && (
+          <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 shadow-sm">
+            <div className="mb-4">
+              <h3 className="text-sm font-medium text-slate-300 flex items-center gap-2">
+                <Activity size={16} /> Simulated Volatility
+              </h3>
+              <p className="text-xs text-slate-500">Annualized volatility each day was drawn with; flat for constant-volatility models</p>
+              {isMultiAsset && <AssetLegend assetNames={assetNames} />}
+            </div>
+            <div className="h-[250px] w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={visibleData} {...sync}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
+                  <XAxis dataKey={xKey} stroke="#475569" tick={{ fontSize: 12 }} minTickGap={30} />
+                  {highlightLine()}
+                  <YAxis stroke="#475569" tick={{ fontSize: 12 }} domain={[0, 'auto']} tickFormatter={(v) => `${(v * 100).toFixed(0)}%`} />
+                  <Tooltip contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', color: '#f1f5f9' }} labelFormatter={formatStepLabel} formatter={(v: number) => (v * 100).toFixed(2) + '%'} />
+                  {volatilityPaths.map((path, a) => (
+                    <Line key={a} type="monotone" dataKey={(d: StepData) => path[d.day]} stroke={ASSET_COLORS[a % ASSET_COLORS.length]} strokeWidth={1.5} dot={false} name={assetNames[a] ?? `Asset ${a + 1}`} />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
+
         {/* Asset Allocation Chart */}
         <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 shadow-sm">
           <div className="mb-4 flex justify-between items-center">
@@ -695,106 +1676,882 @@ const ChartsPanel = ({ simResult, strategy }: { simResult: SimulationResult, str
               <Sliders size={16} /> Portfolio Allocation %
             </h3>
             <div className="text-xs text-indigo-400 flex flex-col items-end">
-              <span>Mode: {strategy.allocationMode === 'fixed' ? 'Fixed' : (strategy.allocationMode === 'rsi' ? 'RSI Dynamic' : 'ADX Dynamic')}</span>
+              <span>Mode: {getAllocationStrategy(strategy.allocationMode).label}</span>
               {strategy.allocationMode === 'fixed' && <span>Target: {(strategy.targetAllocation * 100).toFixed(0)}%</span>}
             </div>
           </div>
+          {isMultiAsset && <AssetLegend assetNames={assetNames} />}
+          {isComparing && <p className="text-xs text-slate-500 mb-2">Bands and targets are for {activeName}; other strategies show their total allocation.</p>}
           <div className="h-[250px] w-full">
             <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={simResult.data}>
+              <LineChart data={visibleData} {...sync}>
                 <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
-                <XAxis dataKey="day" stroke="#475569" tick={{ fontSize: 12 }} minTickGap={30} />
-                <YAxis stroke="#475569" tick={{ fontSize: 12 }} domain={[0, 1]} tickFormatter={(v) => `${(v * 100).toFixed(0)}%`} />
+                <XAxis dataKey={xKey} stroke="#475569" tick={{ fontSize: 12 }} minTickGap={30} />
+                {highlightLine()}
+                <YAxis stroke="#475569" tick={{ fontSize: 12 }} domain={[(min: number) => Math.min(0, min), (max: number) => Math.max(1, max)]} tickFormatter={(v) => `${(v * 100).toFixed(0)}%`} />
                 <Tooltip contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', color: '#f1f5f9' }} formatter={(v: number) => (v * 100).toFixed(2) + '%'} />
 
                 {strategy.allocationMode !== 'fixed' && (
                   <Line type="step" dataKey="targetAllocation" stroke="#a78bfa" strokeWidth={2} dot={false} name="Dynamic Target" />
                 )}
-                {strategy.allocationMode === 'fixed' && strategy.rebalanceType === 'threshold' && (
+                {!isMultiAsset && hasBands && (
+                  <>
+                    <Line type="linear" dataKey={(d: StepData) => d.targetAllocation + rebalanceBands(strategy, d.targetAllocation).upper} stroke="#ef4444" strokeDasharray="3 3" strokeWidth={1} dot={false} activeDot={false} name="Upper Limit" />
+                    <Line type="linear" dataKey={(d: StepData) => d.targetAllocation - rebalanceBands(strategy, d.targetAllocation).lower} stroke="#10b981" strokeDasharray="3 3" strokeWidth={1} dot={false} activeDot={false} name="Lower Limit" />
+                  </>
+                )}
+                <Line type="monotone" dataKey="allocation" stroke={isComparing ? activeColor : '#cbd5e1'} strokeWidth={2} dot={false} name={isComparing ? activeName : (isMultiAsset ? 'Total Allocation' : 'Current Weight')} />
+                {others.map(c => (
+                  <Line key={`alloc-${c.index}`} type="monotone" dataKey={(d: StepData) => c.result.data[d.day]?.allocation} stroke={STRATEGY_COLORS[c.index % STRATEGY_COLORS.length]} strokeWidth={1.5} dot={false} name={c.name} />
+                ))}
+                {isMultiAsset && assetNames.map((name, i) => (
+                  <React.Fragment key={name + i}>
+                    <Line type="step" dataKey={(d: StepData) => d.targetWeights[i]} stroke={ASSET_COLORS[i % ASSET_COLORS.length]} strokeDasharray="3 3" strokeWidth={1} dot={false} activeDot={false} name={`${name} Target`} />
+                    {hasBands && (
+                      <>
+                        <Line type="step" dataKey={(d: StepData) => d.targetWeights[i] + rebalanceBands(strategy, d.targetWeights[i]).upper} stroke={ASSET_COLORS[i % ASSET_COLORS.length]} strokeOpacity={0.35} strokeDasharray="1 3" strokeWidth={1} dot={false} activeDot={false} tooltipType="none" />
+                        <Line type="step" dataKey={(d: StepData) => d.targetWeights[i] - rebalanceBands(strategy, d.targetWeights[i]).lower} stroke={ASSET_COLORS[i % ASSET_COLORS.length]} strokeOpacity={0.35} strokeDasharray="1 3" strokeWidth={1} dot={false} activeDot={false} tooltipType="none" />
+                      </>
+                    )}
+                    <Line type="monotone" dataKey={(d: StepData) => d.weights[i]} stroke={ASSET_COLORS[i % ASSET_COLORS.length]} strokeWidth={1.5} dot={false} name={name} />
+                  </React.Fragment>
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+
+      {/* Only computed while open: the app asks the worker for it then. */}
+      <CollapsiblePanel title="Alpha Attribution" icon={<Layers size={16} />} open={attributionOpen} onToggle={onToggleAttribution}>
+        {simResult.attribution ? <AttributionWaterfall attribution={simResult.attribution} /> : (
+          <p className="text-xs text-slate-500 flex items-center gap-2"><Loader2 size={12} className="animate-spin" /> Re-running the path without costs...</p>
+        )}
+      </CollapsiblePanel>
+
+      {/* Indicator & Risk Panels */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <CollapsiblePanel title="RSI" icon={<Activity size={16} />} open={openPanels.rsi} onToggle={() => togglePanel('rsi')}>
+          <p className="text-xs text-slate-500 mb-2">
+            {strategy.indicatorPeriod}-day RSI. The contrarian mode holds Max Alloc at 30 or below and Min Alloc at 70 or above, scaling linearly in between.
+          </p>
+          <div className="h-[200px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={visibleData} {...sync}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
+                <XAxis dataKey={xKey} stroke="#475569" tick={{ fontSize: 12 }} minTickGap={30} />
+                {highlightLine()}
+                <YAxis stroke="#475569" tick={{ fontSize: 12 }} domain={[0, 100]} ticks={[0, 30, 50, 70, 100]} />
+                <Tooltip contentStyle={tooltipStyle} labelFormatter={formatStepLabel} formatter={(v: number) => v.toFixed(1)} />
+                <ReferenceArea y1={30} y2={70} fill="#6366f1" fillOpacity={0.06} stroke="none" />
+                <ReferenceLine y={30} stroke="#10b981" strokeDasharray="3 3" label={{ value: 'Max Alloc', fill: '#10b981', fontSize: 10, position: 'insideBottomLeft' }} />
+                <ReferenceLine y={70} stroke="#f43f5e" strokeDasharray="3 3" label={{ value: 'Min Alloc', fill: '#f43f5e', fontSize: 10, position: 'insideTopLeft' }} />
+                <Line type="monotone" dataKey="rsi" stroke="#a78bfa" strokeWidth={1.5} dot={false} name="RSI" />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </CollapsiblePanel>
+
+        <CollapsiblePanel title="ADX" icon={<TrendingUp size={16} />} open={openPanels.adx} onToggle={() => togglePanel('adx')}>
+          <p className="text-xs text-slate-500 mb-2">
+            {strategy.indicatorPeriod}-day ADX with +DI/−DI. Above the threshold the trend mode goes to Max or Min Alloc depending on the price's side of the SMA.
+          </p>
+          <div className="h-[200px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={visibleData} {...sync}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
+                <XAxis dataKey={xKey} stroke="#475569" tick={{ fontSize: 12 }} minTickGap={30} />
+                {highlightLine()}
+                <YAxis stroke="#475569" tick={{ fontSize: 12 }} domain={[0, (max: number) => Math.max(50, Math.ceil(max))]} />
+                <Tooltip contentStyle={tooltipStyle} labelFormatter={formatStepLabel} formatter={(v: number) => v.toFixed(1)} />
+                <ReferenceLine y={strategy.adxThreshold} stroke="#f59e0b" strokeDasharray="3 3" label={{ value: 'Threshold', fill: '#f59e0b', fontSize: 10, position: 'insideTopLeft' }} />
+                <Line type="monotone" dataKey="adx" stroke="#e2e8f0" strokeWidth={1.5} dot={false} name="ADX" />
+                <Line type="monotone" dataKey="plusDI" stroke="#10b981" strokeWidth={1} dot={false} name="+DI" />
+                <Line type="monotone" dataKey="minusDI" stroke="#f43f5e" strokeWidth={1} dot={false} name="−DI" />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </CollapsiblePanel>
+
+        <CollapsiblePanel title="Underwater Drawdown" icon={<TrendingDown size={16} />} open={openPanels.drawdown} onToggle={() => togglePanel('drawdown')}>
+          <p className="text-xs text-slate-500 mb-2">Distance below each portfolio's running peak, with cash flows taken out.</p>
+          <div className="h-[200px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={visibleData} {...sync}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
+                <XAxis dataKey={xKey} stroke="#475569" tick={{ fontSize: 12 }} minTickGap={30} />
+                {highlightLine()}
+                <YAxis stroke="#475569" tick={{ fontSize: 12 }} domain={[(min: number) => Math.min(min, -0.01), 0]} tickFormatter={(v) => `${(v * 100).toFixed(0)}%`} />
+                <Tooltip contentStyle={tooltipStyle} labelFormatter={formatStepLabel} formatter={formatPercent} />
+                <Area type="monotone" dataKey={(d: StepData) => -d.drawdown} stroke={activeColor} fill={activeColor} fillOpacity={0.25} name={isComparing ? activeName : 'Rebalancing Strategy'} />
+                <Area type="monotone" dataKey={(d: StepData) => -d.hodlDrawdown} stroke="#64748b" strokeDasharray="4 4" fill="#64748b" fillOpacity={0.15} name="Buy & Hold" />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        </CollapsiblePanel>
+
+        <CollapsiblePanel title="Rolling Metrics" icon={<RefreshCw size={16} />} open={openPanels.rolling} onToggle={() => togglePanel('rolling')}>
+          <div className="flex items-end gap-4 mb-2">
+            <div className="w-40 [&>div]:mb-0">
+              <NumberControl label="Window (Days)" value={rollingWindow} min={5} max={504} step={1} onChange={(v: number) => setRollingWindow(Math.max(2, Math.round(v)))} />
+            </div>
+            <div className="flex flex-1 bg-slate-800 p-1 rounded-lg border border-slate-700">
+              {(['return', 'volatility', 'alpha'] as const).map(view => (
+                <button key={view} onClick={() => setRollingView(view)} className={`flex-1 py-1.5 text-xs font-medium rounded transition-colors capitalize ${rollingView === view ? 'bg-slate-600 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}>
+                  {view}
+                </button>
+              ))}
+            </div>
+          </div>
+          <p className="text-xs text-slate-500 mb-2">
+            {rollingView === 'return' && `Return over the trailing ${rollingWindow} days.`}
+            {rollingView === 'volatility' && `Annualized volatility of daily returns over the trailing ${rollingWindow} days.`}
+            {rollingView === 'alpha' && `Strategy return minus buy & hold return over the trailing ${rollingWindow} days.`}
+          </p>
+          <div className="h-[200px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={visibleData} {...sync}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
+                <XAxis dataKey={xKey} stroke="#475569" tick={{ fontSize: 12 }} minTickGap={30} />
+                {highlightLine()}
+                <YAxis stroke="#475569" tick={{ fontSize: 12 }} domain={['auto', 'auto']} tickFormatter={(v) => `${(v * 100).toFixed(0)}%`} />
+                <Tooltip contentStyle={tooltipStyle} labelFormatter={formatStepLabel} formatter={formatPercent} />
+                {rollingView === 'alpha' ? (
                   <>
-                    <Line type="linear" dataKey={() => strategy.targetAllocation + strategy.rebalanceThreshold} stroke="#ef4444" strokeDasharray="3 3" strokeWidth={1} dot={false} activeDot={false} name="Upper Limit" />
-                    <Line type="linear" dataKey={() => strategy.targetAllocation - strategy.rebalanceThreshold} stroke="#10b981" strokeDasharray="3 3" strokeWidth={1} dot={false} activeDot={false} name="Lower Limit" />
+                    <ReferenceLine y={0} stroke="#475569" />
+                    <Line type="monotone" dataKey={(d: StepData) => rolling[d.day]?.alpha} stroke={activeColor} strokeWidth={1.5} dot={false} name="Alpha" />
+                  </>
+                ) : (
+                  <>
+                    <Line type="monotone" dataKey={(d: StepData) => rollingView === 'return' ? rolling[d.day]?.strategyReturn : rolling[d.day]?.strategyVolatility} stroke={activeColor} strokeWidth={1.5} dot={false} name={isComparing ? activeName : 'Rebalancing Strategy'} />
+                    <Line type="monotone" dataKey={(d: StepData) => rollingView === 'return' ? rolling[d.day]?.hodlReturn : rolling[d.day]?.hodlVolatility} stroke="#64748b" strokeWidth={1.5} strokeDasharray="4 4" dot={false} name="Buy & Hold" />
                   </>
                 )}
-                <Line type="monotone" dataKey="allocation" stroke="#cbd5e1" strokeWidth={2} dot={false} name="Current Weight" />
               </LineChart>
             </ResponsiveContainer>
           </div>
+        </CollapsiblePanel>
+      </div>
+
+      <CollapsiblePanel title="Trade Ledger" icon={<Layers size={16} />} open={openPanels.ledger} onToggle={() => togglePanel('ledger')}>
+        <TradeLedger data={simResult.data} strategy={strategy} xKey={xKey} selectedDay={selectedDay} onSelect={selectTrade} />
+      </CollapsiblePanel>
+    </div>
+  );
+};
+
+const MonteCarloPanel = ({ mcResult, runs, setRuns, attribute, setAttribute, onRun, onCancel, progress, isStale, bootstrapAssetName }: { mcResult: MonteCarloResult | null, runs: number, setRuns: (v: number) => void, attribute: boolean, setAttribute: (v: boolean) => void, onRun: () => void, onCancel: () => void, progress: number | null, isStale: boolean, bootstrapAssetName: string }) => {
+  const formatCurrency = (val: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(val);
+  const formatPercent = (val: number) => `${(val * 100).toFixed(2)}%`;
+
+  const rows: { label: string, dist: DistributionSummary, format: (v: number) => string }[] = mcResult ? [
+    { label: 'Alpha (Strategy - HODL)', dist: mcResult.alpha, format: formatPercent },
+    { label: 'Max Drawdown (Strategy)', dist: mcResult.maxDrawdownStrategy, format: formatPercent },
+    { label: 'Max Drawdown (HODL)', dist: mcResult.maxDrawdownHodl, format: formatPercent },
+    { label: 'Fees Paid', dist: mcResult.fees, format: formatCurrency },
+    { label: 'Trade Count', dist: mcResult.trades, format: (v: number) => v.toFixed(0) }
+  ] : [];
+
+  return (
+    <div className="flex-1 overflow-y-auto p-6 space-y-6">
+      <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 shadow-sm flex items-end gap-4">
+        <div className="w-48 [&>div]:mb-0">
+          <NumberControl label="Simulated Paths" value={runs} min={100} max={10000} step={100} onChange={(v: number) => setRuns(Math.max(1, Math.min(10000, Math.round(v))))} />
+        </div>
+        <label className="flex items-center gap-2 py-2 text-xs text-slate-300 cursor-pointer" title="Re-runs every path without costs, so the run takes about three times as long">
+          <input type="checkbox" checked={attribute} onChange={(e) => setAttribute(e.target.checked)} className="accent-indigo-500" />
+          Alpha attribution
+        </label>
+        {progress === null ? (
+          <button onClick={onRun} className="py-2 px-4 bg-indigo-600 hover:bg-indigo-500 rounded-lg text-xs font-medium text-white transition-colors flex items-center gap-2">
+            <Play size={12} /> Run Monte Carlo
+          </button>
+        ) : (
+          <div className="flex items-center gap-3">
+            <button onClick={onCancel} className="py-2 px-4 bg-slate-800 hover:bg-slate-700 border border-slate-600 rounded-lg text-xs font-medium text-rose-300 transition-colors flex items-center gap-2">
+              <X size={12} /> Cancel
+            </button>
+            <div className="w-40 h-1.5 bg-slate-800 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-500 transition-all" style={{ width: `${(progress * 100).toFixed(0)}%` }}></div>
+            </div>
+            <span className="text-xs text-slate-400">{(progress * 100).toFixed(0)}%</span>
+          </div>
+        )}
+        {mcResult && isStale && progress === null && (
+          <span className="text-xs text-amber-400 flex items-center gap-1.5"><AlertTriangle size={12} /> Inputs changed since the last run</span>
+        )}
+      </div>
+
+      {!mcResult && (
+        <p className="text-sm text-slate-500">Runs the current strategy and buy & hold across many simulated paths drawn from the current market parameters and seed.</p>
+      )}
+
+      {mcResult && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+            <MetricCard
+              label="P(Strategy beats HODL)"
+              value={formatPercent(mcResult.winRate)}
+              subValue={`${mcResult.runs} paths, seed ${mcResult.seed}`}
+              type={mcResult.winRate >= 0.5 ? 'good' : 'bad'}
+              icon={Layers}
+            />
+            <MetricCard
+              label="Median Alpha"
+              value={formatPercent(mcResult.alpha.p50)}
+              subValue={`Mean: ${formatPercent(mcResult.alpha.mean)}`}
+              type={mcResult.alpha.p50 >= 0 ? 'good' : 'bad'}
+              icon={TrendingUp}
+            />
+            <MetricCard
+              label="Median Max Drawdown"
+              value={formatPercent(mcResult.maxDrawdownStrategy.p50)}
+              subValue={`HODL: ${formatPercent(mcResult.maxDrawdownHodl.p50)}`}
+              type={mcResult.maxDrawdownStrategy.p50 < mcResult.maxDrawdownHodl.p50 ? 'good' : 'bad'}
+              icon={TrendingDown}
+            />
+            <MetricCard
+              label="Median Execution"
+              value={`${mcResult.trades.p50.toFixed(0)} Trades`}
+              subValue={`Fees: ${formatCurrency(mcResult.fees.p50)}`}
+              icon={RefreshCw}
+            />
+          </div>
+
+          <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 shadow-sm overflow-x-auto">
+            <h3 className="text-sm font-medium text-slate-300 mb-4">Distribution Percentiles</h3>
+            <table className="w-full text-xs text-slate-300">
+              <thead>
+                <tr className="text-slate-500 border-b border-slate-800">
+                  <th className="text-left font-medium py-2">Metric</th>
+                  <th className="text-right font-medium py-2">P5</th>
+                  <th className="text-right font-medium py-2">P25</th>
+                  <th className="text-right font-medium py-2">P50</th>
+                  <th className="text-right font-medium py-2">P75</th>
+                  <th className="text-right font-medium py-2">P95</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(({ label, dist, format }) => (
+                  <tr key={label} className="border-b border-slate-800/50">
+                    <td className="py-2">{label}</td>
+                    <td className="text-right py-2">{format(dist.p5)}</td>
+                    <td className="text-right py-2">{format(dist.p25)}</td>
+                    <td className="text-right py-2 text-slate-100 font-medium">{format(dist.p50)}</td>
+                    <td className="text-right py-2">{format(dist.p75)}</td>
+                    <td className="text-right py-2">{format(dist.p95)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {mcResult.bootstrapMoments && <BootstrapMomentsTable moments={mcResult.bootstrapMoments} assetName={bootstrapAssetName} generatedLabel={`paths (pooled over ${mcResult.runs})`} />}
+
+          {mcResult.attribution && (
+            <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 shadow-sm">
+              <div className="mb-4">
+                <h3 className="text-sm font-medium text-slate-300">Alpha Attribution</h3>
+                <p className="text-xs text-slate-500">Each part averaged across {mcResult.runs} paths</p>
+              </div>
+              <AttributionWaterfall attribution={mcResult.attribution} />
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Alpha Histogram */}
+            <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 shadow-sm">
+              <div className="mb-4">
+                <h3 className="text-sm font-medium text-slate-300">Alpha Distribution</h3>
+                <p className="text-xs text-slate-500">Strategy return minus buy & hold return, per path</p>
+              </div>
+              <div className="h-[250px] w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={mcResult.alphaHistogram}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
+                    <XAxis dataKey="start" stroke="#475569" tick={{ fontSize: 12 }} minTickGap={30} tickFormatter={(v) => `${(v * 100).toFixed(1)}%`} />
+                    <YAxis stroke="#475569" tick={{ fontSize: 12 }} allowDecimals={false} />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', color: '#f1f5f9' }}
+                      cursor={{ fill: '#1e293b' }}
+                      labelFormatter={(_, payload) => {
+                        const bin = payload?.[0]?.payload as HistogramBin | undefined;
+                        return bin ? `${formatPercent(bin.start)} to ${formatPercent(bin.end)}` : '';
+                      }}
+                    />
+                    <Bar dataKey="count" name="Paths" fill="#818cf8" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            {/* Equity Fan Chart */}
+            <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 shadow-sm">
+              <div className="mb-4">
+                <h3 className="text-sm font-medium text-slate-300">Strategy Equity Percentiles</h3>
+                <p className="text-xs text-slate-500">Shaded: 5-95% and 25-75% bands. Dashed: buy & hold median</p>
+              </div>
+              <div className="h-[250px] w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={mcResult.equityBands}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
+                    <XAxis dataKey="day" stroke="#475569" tick={{ fontSize: 12 }} minTickGap={30} />
+                    <YAxis stroke="#475569" tick={{ fontSize: 12 }} domain={['auto', 'auto']} tickFormatter={(v) => `$${v / 1000}k`} />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', color: '#f1f5f9' }}
+                      labelFormatter={(l) => `Day ${l}`}
+                      formatter={(val: number | [number, number]) => Array.isArray(val) ? `${formatCurrency(val[0])} - ${formatCurrency(val[1])}` : formatCurrency(val)}
+                    />
+                    <Area type="monotone" dataKey="outer" stroke="none" fill="#10b981" fillOpacity={0.15} name="P5-P95" />
+                    <Area type="monotone" dataKey="inner" stroke="none" fill="#10b981" fillOpacity={0.3} name="P25-P75" />
+                    <Line type="monotone" dataKey="median" stroke="#10b981" strokeWidth={2} dot={false} name="Strategy Median" />
+                    <Line type="monotone" dataKey="hodlMedian" stroke="#64748b" strokeWidth={2} strokeDasharray="4 4" dot={false} name="Buy & Hold Median" />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+type SweepMetric = 'alpha' | 'sharpe' | 'maxDrawdown' | 'trades';
+
+const SWEEP_FIELDS: Record<SweepField, { label: string, isPercentage: boolean, range: [number, number, number] }> = {
+  rebalanceThreshold: { label: 'Rebalance Threshold', isPercentage: true, range: [0.01, 0.2, 0.01] },
+  rebalanceFrequency: { label: 'Frequency (Days)', isPercentage: false, range: [5, 100, 5] },
+  transactionFeeRate: { label: 'Transaction Fee', isPercentage: true, range: [0, 0.005, 0.0005] },
+  indicatorPeriod: { label: 'Indicator Period', isPercentage: false, range: [5, 50, 5] },
+  adxThreshold: { label: 'ADX Threshold', isPercentage: false, range: [10, 50, 5] },
+  minAllocation: { label: 'Min Alloc', isPercentage: true, range: [0, 0.5, 0.05] },
+  maxAllocation: { label: 'Max Alloc', isPercentage: true, range: [0.5, 1, 0.05] }
+};
+
+// `better` says which direction is green; null colours by magnitude only.
+const SWEEP_METRICS: Record<SweepMetric, { label: string, format: (v: number) => string, better: 'high' | 'low' | null }> = {
+  alpha: { label: 'Alpha (Strategy - HODL)', format: (v) => `${(v * 100).toFixed(2)}%`, better: 'high' },
+  sharpe: { label: 'Sharpe Ratio', format: (v) => v.toFixed(2), better: 'high' },
+  maxDrawdown: { label: 'Max Drawdown (Strategy)', format: (v) => `${(v * 100).toFixed(2)}%`, better: 'low' },
+  trades: { label: 'Trade Count', format: (v) => v.toFixed(0), better: null }
+};
+
+// Swept fields that the current strategy ignores would give a flat grid, so the panel says so up front.
+const sweepFieldNote = (field: SweepField, strategy: StrategyConfig): string | null => {
+  if (field === 'rebalanceThreshold' && strategy.rebalanceType === 'time' && strategy.rebalanceTo !== 'bandEdge') return 'only applies with a band trigger or band-edge rebalancing';
+  if (field === 'rebalanceFrequency' && strategy.rebalanceType === 'threshold') return 'only applies with a Time trigger';
+  const allocator = getAllocationStrategy(strategy.allocationMode);
+  const isAllocationParam = ALLOCATION_STRATEGIES.some(s => s.params.some(param => param.field === field));
+  if (isAllocationParam && !allocator.params.some(param => param.field === field)) return `has no effect with ${allocator.label}`;
+  return null;
+};
+
+const formatSweepValue = (field: SweepField, value: number) =>
+  SWEEP_FIELDS[field].isPercentage ? `${(value * 100).toFixed(2).replace(/\.?0+$/, '')}%` : value.toString();
+
+const sweepCellColor = (value: number | null, metric: SweepMetric, min: number, max: number): string => {
+  if (value === null) return '#1e293b';
+  const { better } = SWEEP_METRICS[metric];
+  if (metric === 'alpha') {
+    // Diverging around zero so the sign of alpha reads at a glance.
+    const extent = Math.max(Math.abs(min), Math.abs(max)) || 1;
+    const strength = 0.15 + 0.75 * Math.abs(value) / extent;
+    return value >= 0 ? `rgba(16, 185, 129, ${strength})` : `rgba(244, 63, 94, ${strength})`;
+  }
+  const t = max > min ? (value - min) / (max - min) : 0.5;
+  if (better === null) return `rgba(129, 140, 248, ${0.15 + 0.75 * t})`;
+  const goodness = better === 'high' ? t : 1 - t;
+  return goodness >= 0.5 ? `rgba(16, 185, 129, ${0.15 + 1.5 * (goodness - 0.5)})` : `rgba(244, 63, 94, ${0.15 + 1.5 * (0.5 - goodness)})`;
+};
+
+const SweepAxisControls = ({ label, axis, onChange, strategy }: { label: string, axis: SweepAxis, onChange: (axis: SweepAxis) => void, strategy: StrategyConfig }) => {
+  const { isPercentage } = SWEEP_FIELDS[axis.field];
+  const note = sweepFieldNote(axis.field, strategy);
+  return (
+    <div>
+      <label className="text-xs font-medium text-slate-300 mb-1.5 block">{label}</label>
+      <select
+        value={axis.field}
+        onChange={(e) => {
+          const field = e.target.value as SweepField;
+          const [from, to, step] = SWEEP_FIELDS[field].range;
+          onChange({ field, from, to, step });
+        }}
+        className="w-full mb-3 bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none"
+      >
+        {(Object.keys(SWEEP_FIELDS) as SweepField[]).map(field => (
+          <option key={field} value={field}>{SWEEP_FIELDS[field].label}</option>
+        ))}
+      </select>
+      <div className="grid grid-cols-3 gap-2 [&>div]:mb-0">
+        <NumberControl label="From" value={axis.from} step={isPercentage ? 0.001 : 1} isPercentage={isPercentage} onChange={(v: number) => onChange({ ...axis, from: v })} />
+        <NumberControl label="To" value={axis.to} step={isPercentage ? 0.001 : 1} isPercentage={isPercentage} onChange={(v: number) => onChange({ ...axis, to: v })} />
+        <NumberControl label="Step" value={axis.step} min={0} step={isPercentage ? 0.001 : 1} isPercentage={isPercentage} onChange={(v: number) => onChange({ ...axis, step: Math.abs(v) })} />
+      </div>
+      {note && <p className="text-[10px] text-amber-400 mt-2 px-1">{SWEEP_FIELDS[axis.field].label} {note}.</p>}
+    </div>
+  );
+};
+
+const SweepHeatmap = ({ result, metric, strategy, onApply }: { result: SweepResult, metric: SweepMetric, strategy: StrategyConfig, onApply: (cell: SweepCell) => void }) => {
+  const { x: xAxis, y: yAxis } = result.config;
+  if (!yAxis) return null;
+  const values = result.cells.map(cell => cell[metric]).filter((v): v is number => v !== null);
+  // Every cell can be null (e.g. no Sharpe on zero-volatility grids); the bounds are then neutral and unused.
+  const min = values.length > 0 ? Math.min(...values) : 0;
+  const max = values.length > 0 ? Math.max(...values) : 0;
+  const showValues = result.xValues.length <= 12;
+  // Highest y value on top, like a chart axis.
+  const rows = [...result.yValues].reverse();
+  return (
+    <div className="overflow-x-auto">
+      <div className="grid gap-0.5 text-[10px]" style={{ gridTemplateColumns: `auto repeat(${result.xValues.length}, minmax(2rem, 1fr))` }}>
+        {rows.map(y => (
+          <React.Fragment key={y}>
+            <div className="pr-2 text-right text-slate-500 self-center">{formatSweepValue(yAxis.field, y)}</div>
+            {result.xValues.map(x => {
+              const cell = result.cells[result.yValues.indexOf(y) * result.xValues.length + result.xValues.indexOf(x)];
+              const value = cell[metric];
+              const isCurrent = strategy[xAxis.field] === x && strategy[yAxis.field] === y;
+              return (
+                <button
+                  key={x}
+                  onClick={() => onApply(cell)}
+                  title={`${SWEEP_FIELDS[xAxis.field].label} ${formatSweepValue(xAxis.field, x)}, ${SWEEP_FIELDS[yAxis.field].label} ${formatSweepValue(yAxis.field, y)}: ${value === null ? 'n/a' : SWEEP_METRICS[metric].format(value)}`}
+                  className={`h-8 rounded-sm text-slate-100 hover:ring-1 hover:ring-slate-300 transition-shadow ${isCurrent ? 'ring-2 ring-white' : ''}`}
+                  style={{ backgroundColor: sweepCellColor(value, metric, min, max) }}
+                >
+                  {showValues && value !== null ? SWEEP_METRICS[metric].format(value) : ''}
+                </button>
+              );
+            })}
+          </React.Fragment>
+        ))}
+        <div></div>
+        {result.xValues.map(x => (
+          <div key={x} className="pt-1 text-center text-slate-500">{formatSweepValue(xAxis.field, x)}</div>
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-slate-500 mt-3">
+        <span>X: {SWEEP_FIELDS[xAxis.field].label} &middot; Y: {SWEEP_FIELDS[yAxis.field].label}</span>
+        {values.length > 0 && <span>Range: {SWEEP_METRICS[metric].format(min)} to {SWEEP_METRICS[metric].format(max)}</span>}
+      </div>
+    </div>
+  );
+};
+
+const SweepPanel = ({ sweepResult, config, setConfig, strategy, onRun, onCancel, onApply, progress, isStale, hasImported }: { sweepResult: SweepResult | null, config: SweepConfig, setConfig: (config: SweepConfig) => void, strategy: StrategyConfig, onRun: () => void, onCancel: () => void, onApply: (cell: SweepCell) => void, progress: number | null, isStale: boolean, hasImported: boolean }) => {
+  const [metric, setMetric] = useState<SweepMetric>('alpha');
+
+  // Validate the grid up front so an oversized sweep is explained before it is sent to the worker.
+  let gridSize: string | null = null;
+  let gridError: string | null = null;
+  try {
+    const cells = sweepValues(config.x).length * (config.y ? sweepValues(config.y).length : 1);
+    const paths = config.pathMode === 'seeded' ? config.paths : 1;
+    gridSize = `${cells} cells × ${paths} path${paths === 1 ? '' : 's'} = ${(cells * paths).toLocaleString()} runs`;
+  } catch (err) {
+    gridError = err instanceof Error ? err.message : String(err);
+  }
+  const sameField = config.y !== null && config.y.field === config.x.field;
+
+  return (
+    <div className="flex-1 overflow-y-auto p-6 space-y-6">
+      <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 shadow-sm space-y-4">
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <SweepAxisControls label="X Axis Parameter" axis={config.x} onChange={(x) => setConfig({ ...config, x })} strategy={strategy} />
+          {config.y ? (
+            <div>
+              <SweepAxisControls label="Y Axis Parameter" axis={config.y} onChange={(y) => setConfig({ ...config, y })} strategy={strategy} />
+              <button onClick={() => setConfig({ ...config, y: null })} className="mt-2 text-xs text-slate-400 hover:text-slate-200 flex items-center gap-1">
+                <X size={12} /> Remove second parameter
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={() => {
+                const field = (Object.keys(SWEEP_FIELDS) as SweepField[]).find(f => f !== config.x.field && f !== 'rebalanceThreshold' && f !== 'rebalanceFrequency') ?? 'transactionFeeRate';
+                const [from, to, step] = SWEEP_FIELDS[field].range;
+                setConfig({ ...config, y: { field, from, to, step } });
+              }}
+              className="self-start py-2 px-3 bg-slate-800 hover:bg-slate-700 border border-slate-600 rounded-lg text-xs font-medium text-slate-300 transition-colors flex items-center gap-2"
+            >
+              <Plus size={12} /> Add second parameter
+            </button>
+          )}
+        </div>
+
+        <div className="border-t border-slate-800"></div>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label className="text-xs font-medium text-slate-300 mb-1.5 block">Paths</label>
+            <div className="flex bg-slate-800 p-1 rounded-lg border border-slate-700">
+              <button onClick={() => setConfig({ ...config, pathMode: 'current' })} className={`px-3 py-1.5 text-xs font-medium rounded transition-colors ${config.pathMode === 'current' ? 'bg-slate-600 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}>
+                Current Path
+              </button>
+              <button onClick={() => setConfig({ ...config, pathMode: 'seeded' })} className={`px-3 py-1.5 text-xs font-medium rounded transition-colors ${config.pathMode === 'seeded' ? 'bg-slate-600 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}>
+                Seeded Average
+              </button>
+            </div>
+          </div>
+          {config.pathMode === 'seeded' && (
+            <div className="w-32 [&>div]:mb-0">
+              <NumberControl label="Paths to Average" value={config.paths} min={2} max={1000} step={10} onChange={(v: number) => setConfig({ ...config, paths: Math.max(2, Math.min(1000, Math.round(v))) })} />
+            </div>
+          )}
+          {progress === null ? (
+            <button onClick={onRun} disabled={!!gridError || sameField} className="py-2 px-4 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:pointer-events-none rounded-lg text-xs font-medium text-white transition-colors flex items-center gap-2">
+              <Play size={12} /> Run Sweep
+            </button>
+          ) : (
+            <div className="flex items-center gap-3">
+              <button onClick={onCancel} className="py-2 px-4 bg-slate-800 hover:bg-slate-700 border border-slate-600 rounded-lg text-xs font-medium text-rose-300 transition-colors flex items-center gap-2">
+                <X size={12} /> Cancel
+              </button>
+              <div className="w-40 h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-500 transition-all" style={{ width: `${(progress * 100).toFixed(0)}%` }}></div>
+              </div>
+              <span className="text-xs text-slate-400">{(progress * 100).toFixed(0)}%</span>
+            </div>
+          )}
+          <span className={`text-xs ${gridError || sameField ? 'text-rose-400' : 'text-slate-500'}`}>
+            {sameField ? 'Pick two different parameters' : gridError ?? gridSize}
+          </span>
+          {sweepResult && isStale && progress === null && (
+            <span className="text-xs text-amber-400 flex items-center gap-1.5"><AlertTriangle size={12} /> Inputs changed since the last run</span>
+          )}
         </div>
+        {config.pathMode === 'seeded' && hasImported && (
+          <p className="text-[10px] text-slate-500">Seeded paths are simulated from the market parameters; the imported series is only used with Current Path.</p>
+        )}
       </div>
+
+      {!sweepResult && (
+        <p className="text-sm text-slate-500">Runs the strategy once per grid point, on the current path or averaged over seeded paths, and plots the chosen metric. Click a result to apply those parameters.</p>
+      )}
+
+      {sweepResult && (
+        <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 shadow-sm">
+          <div className="mb-4 flex items-start justify-between gap-4">
+            <div>
+              <h3 className="text-sm font-medium text-slate-300">{SWEEP_METRICS[metric].label}</h3>
+              <p className="text-xs text-slate-500">
+                {sweepResult.config.pathMode === 'seeded' ? `Averaged over ${sweepResult.config.paths} seeded paths` : 'On the current path'}. Click a {sweepResult.config.y ? 'cell' : 'point'} to apply its parameters.
+              </p>
+            </div>
+            <select
+              value={metric}
+              onChange={(e) => setMetric(e.target.value as SweepMetric)}
+              className="bg-slate-800 border border-slate-700 rounded-lg py-1.5 px-3 text-xs text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none"
+            >
+              {(Object.keys(SWEEP_METRICS) as SweepMetric[]).map(m => (
+                <option key={m} value={m}>{SWEEP_METRICS[m].label}</option>
+              ))}
+            </select>
+          </div>
+          {sweepResult.config.y ? (
+            <SweepHeatmap result={sweepResult} metric={metric} strategy={strategy} onApply={onApply} />
+          ) : (
+            <div className="h-[300px] w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={sweepResult.cells} onClick={(state: MouseHandlerDataParam) => {
+                  // The clicked point arrives as its index (a string in recharts 3); clicks between points have none.
+                  const cell = state.activeIndex === null || state.activeIndex === undefined ? undefined : sweepResult.cells[Number(state.activeIndex)];
+                  if (cell) onApply(cell);
+                }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
+                  <XAxis dataKey="x" stroke="#475569" tick={{ fontSize: 12 }} tickFormatter={(v) => formatSweepValue(sweepResult.config.x.field, v)} />
+                  <YAxis stroke="#475569" tick={{ fontSize: 12 }} domain={['auto', 'auto']} tickFormatter={(v) => SWEEP_METRICS[metric].format(v)} />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', color: '#f1f5f9' }}
+                    labelFormatter={(l) => `${SWEEP_FIELDS[sweepResult.config.x.field].label}: ${formatSweepValue(sweepResult.config.x.field, l)}`}
+                    formatter={(val: number) => SWEEP_METRICS[metric].format(val)}
+                  />
+                  <Line type="monotone" dataKey={metric} stroke="#818cf8" strokeWidth={2} dot={{ r: 3, cursor: 'pointer' }} activeDot={{ r: 5, cursor: 'pointer' }} name={SWEEP_METRICS[metric].label} isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const NoticeBanner = ({ tone, text, onDismiss }: { tone: 'error' | 'warning', text: string, onDismiss: () => void }) => (
+  <div className={`mx-6 mt-4 px-4 py-2.5 rounded-lg border text-xs flex items-start gap-2 ${tone === 'error' ? 'bg-rose-950/40 border-rose-900 text-rose-300' : 'bg-amber-950/40 border-amber-900 text-amber-300'}`}>
+    <AlertTriangle size={14} className="flex-shrink-0 mt-px" />
+    <span className="flex-1">{text}</span>
+    <button onClick={onDismiss} className="text-slate-400 hover:text-slate-200 transition-colors" title="Dismiss">
+      <X size={14} />
+    </button>
+  </div>
+);
+
+const ExportToolbar = ({ canExport, onExport, onLoadBundle, onCopyLink }: { canExport: boolean, onExport: (kind: 'steps' | 'ledger' | 'bundle') => void, onLoadBundle: (file: File) => void, onCopyLink: () => Promise<boolean> }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [copied, setCopied] = useState(false);
+  const buttonClass = "px-3 py-1.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded text-xs text-slate-300 flex items-center gap-1.5 transition-colors disabled:opacity-50 disabled:pointer-events-none";
+
+  return (
+    <div className="ml-auto flex items-center gap-2">
+      <button
+        onClick={() => onCopyLink().then(ok => {
+          if (!ok) return;
+          setCopied(true);
+          setTimeout(() => setCopied(false), 1500);
+        })}
+        className={buttonClass}
+        title="Copy a link to this exact scenario"
+      >
+        {copied ? <Check size={12} /> : <Link2 size={12} />} {copied ? 'Copied' : 'Copy Link'}
+      </button>
+      <button onClick={() => onExport('steps')} disabled={!canExport} className={buttonClass} title="Every simulated day as CSV">
+        <Download size={12} /> Daily CSV
+      </button>
+      <button onClick={() => onExport('ledger')} disabled={!canExport} className={buttonClass} title="Rebalance events only">
+        <Download size={12} /> Trade Ledger
+      </button>
+      <button onClick={() => onExport('bundle')} disabled={!canExport} className={buttonClass} title="Configs, price path and summary as JSON">
+        <FileJson size={12} /> Run Bundle
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onLoadBundle(file);
+          e.target.value = '';
+        }}
+      />
+      <button onClick={() => inputRef.current?.click()} className={buttonClass} title="Restore and re-run a saved run bundle">
+        <FolderOpen size={12} /> Load Run
+      </button>
     </div>
   );
 };
 
-// --- 7. Main Application Component ---
+// --- 3. Main Application Component ---
+
+interface Notice {
+  tone: 'error' | 'warning';
+  text: string;
+}
+
+const readSharedLink = (hash: string): { decoded: DecodedScenario | null, notice: Notice | null } => {
+  try {
+    const decoded = decodeScenario(hash);
+    if (decoded && decoded.issues.length > 0) {
+      return { decoded, notice: { tone: 'warning', text: `Some link parameters were invalid or outdated and were reset to defaults: ${decoded.issues.join(', ')}` } };
+    }
+    return { decoded, notice: null };
+  } catch (err) {
+    return { decoded: null, notice: { tone: 'error', text: `${err instanceof Error ? err.message : String(err)}. Showing the default scenario instead.` } };
+  }
+};
+
+const toImportedRef = (series: ImportedSeries): ImportedSeriesRef => ({
+  name: series.name,
+  startDate: series.summary.startDate,
+  endDate: series.summary.endDate,
+  observations: series.summary.observations
+});
 
 const App = () => {
-  const [market, setMarket] = useState<MarketConfig>({
-    initialPrice: 100,
-    days: 365,
-    type: 'GBM',
-    drift: 0.05,
-    volatility: 0.40,
-    meanReversionSpeed: 5.0,
-    longTermMean: 100,
-    jumpIntensity: 2,
-    jumpMean: -0.15,
-    jumpStdDev: 0.1
-  });
+  const [initialLink] = useState(() => readSharedLink(window.location.hash));
+  const [market, setMarket] = useState<MarketConfig>(() => initialLink.decoded?.scenario.market ?? { ...DEFAULT_MARKET, seed: randomSeed() });
+  const [strategies, setStrategies] = useState<NamedStrategy[]>(() => initialLink.decoded?.scenario.strategies ?? [{ name: DEFAULT_STRATEGY_NAME, config: DEFAULT_STRATEGY }]);
+  const [activeStrategyIndex, setActiveStrategyIndex] = useState(0);
+  const strategy = strategies[activeStrategyIndex].config;
+  const [linkNotice, setLinkNotice] = useState<Notice | null>(initialLink.notice);
+  // Set when a shared link refers to imported data this browser has not loaded yet.
+  const [pendingImportRef, setPendingImportRef] = useState<ImportedSeriesRef | null>(initialLink.decoded?.scenario.importedRef ?? null);
+
+  const [viewMode, setViewMode] = useState<'single' | 'monteCarlo' | 'sweep'>('single');
+  const [mcRuns, setMcRuns] = useState(1000);
+  const [mcAttribution, setMcAttribution] = useState(false);
+  const [showAttribution, setShowAttribution] = useState(false);
+  const [sweepConfig, setSweepConfig] = useState<SweepConfig>(DEFAULT_SWEEP);
+  const [imported, setImported] = useState<ImportedSeries | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [bundleError, setBundleError] = useState<string | null>(null);
+  const { singleRun, isSimulating, mcRun, mcProgress, sweepRun, sweepProgress, error, simulate, runMonteCarlo, cancelMonteCarlo, runSweep, cancelSweep } = useSimulationWorker();
+  // Results can briefly lag the strategy list (e.g. right after a removal), so index them defensively.
+  const comparisons: StrategyComparison[] = strategies
+    .map((s, index) => ({ index, name: s.name, result: singleRun?.results[index] }))
+    .filter((c): c is StrategyComparison => !!c.result);
+  const simResult = singleRun?.results[activeStrategyIndex] ?? singleRun?.results[0] ?? null;
+
+  // The sidebar's Strategy Config always edits the selected strategy.
+  const setStrategy = useCallback((update: React.SetStateAction<StrategyConfig>) => {
+    setStrategies(prev => prev.map((s, i) => i === activeStrategyIndex ? { ...s, config: typeof update === 'function' ? update(s.config) : update } : s));
+  }, [activeStrategyIndex]);
+
+  const addStrategy = () => {
+    const names = new Set(strategies.map(s => s.name));
+    let n = strategies.length + 1;
+    while (names.has(`Strategy ${n}`)) n++;
+    setStrategies(prev => [...prev, { name: `Strategy ${n}`, config: strategy }]);
+    setActiveStrategyIndex(strategies.length);
+  };
 
-  const [strategy, setStrategy] = useState<StrategyConfig>({
-    initialCapital: 10000,
-    allocationMode: 'fixed',
-    targetAllocation: 0.50,
-    minAllocation: 0.20,
-    maxAllocation: 0.80,
-    indicatorPeriod: 14,
-    adxThreshold: 25,
-    rebalanceType: 'threshold',
-    rebalanceThreshold: 0.05,
-    rebalanceFrequency: 30,
-    transactionFeeRate: 0.001,
-  });
+  const removeStrategy = (index: number) => {
+    if (strategies.length <= 1) return;
+    setStrategies(prev => prev.filter((_, i) => i !== index));
+    setActiveStrategyIndex(prev => prev > index || prev === strategies.length - 1 ? Math.max(0, prev - 1) : prev);
+  };
 
-  const [pricePath, setPricePath] = useState<number[]>([]);
-  const [simResult, setSimResult] = useState<SimulationResult | null>(null);
+  const renameStrategy = (name: string) =>
+    setStrategies(prev => prev.map((s, i) => i === activeStrategyIndex ? { ...s, name } : s));
 
+  // Only Regenerate picks a new seed; any other market change replays the same random draws.
   const regenerateMarket = useCallback(() => {
-    const path = generatePricePath(market);
-    setPricePath(path);
-  }, [market]);
-
-  useEffect(() => {
-    regenerateMarket();
+    setMarket(prev => ({ ...prev, seed: randomSeed() }));
   }, []);
 
   useEffect(() => {
-    if (pricePath.length > 0) {
-      const result = runSimulation(market, strategy, pricePath);
-      setSimResult(result);
+    const handle = setTimeout(() => simulate(market, strategies.map(s => s.config), imported, showAttribution ? activeStrategyIndex : null), SIMULATION_DEBOUNCE_MS);
+    return () => clearTimeout(handle);
+  }, [market, strategies, imported, showAttribution, activeStrategyIndex, simulate]);
+
+  const importPriceFile = async (file: File) => {
+    try {
+      setImported(parsePriceFile(file.name, await file.text()));
+      setPendingImportRef(null);
+      setImportError(null);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // Assets live in the market config but their weights live in the strategy, so both are resized together.
+  const addAsset = () => {
+    setMarket(prev => {
+      const size = prev.extraAssets.length + 2;
+      const { days, seed, assetName, extraAssets, correlation, scenarioEnabled, segments, shocks, ...model } = prev;
+      return {
+        ...prev,
+        extraAssets: [...extraAssets, { ...model, name: `Asset ${size}` }],
+        correlation: normalizeCorrelation(correlation, size)
+      };
+    });
+    setStrategies(prev => prev.map(s => ({
+      ...s,
+      config: { ...s.config, assetWeights: [...s.config.assetWeights, s.config.assetWeights.length > 0 ? Math.min(...s.config.assetWeights) : 1] }
+    })));
+  };
+
+  const removeAsset = (index: number) => {
+    const removed = index + 1;
+    setMarket(prev => ({
+      ...prev,
+      extraAssets: prev.extraAssets.filter((_, i) => i !== index),
+      correlation: normalizeCorrelation(prev.correlation, prev.extraAssets.length + 1)
+        .filter((_, i) => i !== removed)
+        .map(row => row.filter((_, j) => j !== removed))
+    }));
+    setStrategies(prev => prev.map(s => ({ ...s, config: { ...s.config, assetWeights: s.config.assetWeights.filter((_, i) => i !== removed) } })));
+  };
+
+  const exportRun = (kind: 'steps' | 'ledger' | 'bundle') => {
+    if (!singleRun || !simResult) return;
+    const baseName = `quantsim-${imported ? imported.name.replace(/\.[^.]+$/, '') : `seed-${market.seed}`}`;
+    if (kind === 'steps') {
+      downloadFile(`${baseName}-daily.csv`, stepsToCsv(simResult.data), 'text/csv');
+    } else if (kind === 'ledger') {
+      downloadFile(`${baseName}-trades.csv`, ledgerToCsv(simResult.data), 'text/csv');
+    } else {
+      const bundle = buildRunBundle(market, strategy, imported, singleRun.pricePaths, simResult);
+      downloadFile(`${baseName}-run.json`, JSON.stringify(bundle, null, 2), 'application/json');
     }
-  }, [pricePath, market, strategy]);
-
-  const applyPreset = (type: 'BULL' | 'BEAR' | 'SIDEWAYS' | 'VOLATILE' | 'CRASH') => {
-    switch (type) {
-      case 'BULL':
-        setMarket(prev => ({ ...prev, type: 'GBM', drift: 0.25, volatility: 0.20 }));
-        break;
-      case 'BEAR':
-        setMarket(prev => ({ ...prev, type: 'GBM', drift: -0.20, volatility: 0.25 }));
-        break;
-      case 'SIDEWAYS':
-        setMarket(prev => ({ ...prev, type: 'OU', meanReversionSpeed: 6.0, volatility: 0.30, longTermMean: prev.initialPrice }));
-        break;
-      case 'VOLATILE':
-        setMarket(prev => ({ ...prev, type: 'GBM', drift: 0.0, volatility: 0.80 }));
-        break;
-      case 'CRASH':
-        setMarket(prev => ({ ...prev, type: 'JUMP', drift: 0.05, volatility: 0.20, jumpIntensity: 3, jumpMean: -0.20, jumpStdDev: 0.05 }));
-        break;
+  };
+
+  const loadRunBundle = async (file: File) => {
+    try {
+      const bundle = parseRunBundle(await file.text());
+      // Every strategy's weights follow the bundle's asset list; new assets get weight 1, as in share links.
+      const assetCount = bundle.market.extraAssets.length + 1;
+      const fitWeights = (config: StrategyConfig): StrategyConfig =>
+        ({ ...config, assetWeights: Array.from({ length: assetCount }, (_, a) => config.assetWeights[a] ?? 1) });
+      setMarket(bundle.market);
+      setStrategies(prev => prev.map((s, i) => ({ ...s, config: fitWeights(i === activeStrategyIndex ? bundle.strategy : s.config) })));
+      setImported(bundle.imported);
+      setPendingImportRef(null);
+      setViewMode('single');
+      setBundleError(null);
+    } catch (err) {
+      setBundleError(err instanceof Error ? err.message : String(err));
     }
   };
 
+  const assetNames = imported ? [imported.name] : [market.assetName, ...market.extraAssets.map(a => a.name)];
+
+  const activePreset = getActivePreset(market);
+
+  // Imported history replaces the simulated market in single runs, so there is no bootstrapped path to compare then.
+  const bootstrapIndex = bootstrapModelIndex(market);
+  const bootstrapPath = !imported && bootstrapIndex !== -1 ? singleRun?.pricePaths[bootstrapIndex] : undefined;
+  const singleBootstrap = bootstrapPath
+    ? { assetIndex: bootstrapIndex, moments: { source: bootstrapSourceMoments([market, ...market.extraAssets][bootstrapIndex]), generated: priceMoments(bootstrapPath) } }
+    : null;
+
+  // Mirror the scenario into the URL hash so the address bar is always a shareable link.
+  useEffect(() => {
+    const importedRef = imported ? toImportedRef(imported) : pendingImportRef;
+    const hash = `#${encodeScenario({ market, strategies, preset: getActivePreset(market), importedRef })}`;
+    if (hash !== window.location.hash) window.history.replaceState(null, '', hash);
+  }, [market, strategies, imported, pendingImportRef]);
+
+  // A link pasted into the address bar of an open tab only fires hashchange.
+  useEffect(() => {
+    const onHashChange = () => {
+      const { decoded, notice } = readSharedLink(window.location.hash);
+      setLinkNotice(notice);
+      if (!decoded) return;
+      const { market, strategies, importedRef } = decoded.scenario;
+      setMarket(market);
+      setStrategies(strategies);
+      setActiveStrategyIndex(0);
+      setImported(prev => prev && importedRef && JSON.stringify(toImportedRef(prev)) === JSON.stringify(importedRef) ? prev : null);
+      setPendingImportRef(importedRef);
+    };
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  const applySweepCell = (cell: SweepCell) => {
+    const { x, y } = sweepRun?.result.config ?? sweepConfig;
+    setStrategy(prev => ({ ...prev, [x.field]: cell.x, ...(y && cell.y !== null ? { [y.field]: cell.y } : {}) }));
+  };
+
+  // A sweep only goes stale when something other than the swept fields changes, so applying a cell keeps it current.
+  const isSweepStale = (() => {
+    if (!sweepRun) return false;
+    const { x, y } = sweepRun.result.config;
+    const unswept = (s: StrategyConfig) => JSON.stringify({ ...s, [x.field]: null, ...(y ? { [y.field]: null } : {}) });
+    return sweepRun.market !== market || unswept(sweepRun.strategy) !== unswept(strategy);
+  })();
+
+  // The clipboard API is missing on non-secure origins and rejects when permission is denied; both end in a notice.
+  const copyLink = async (): Promise<boolean> => {
+    try {
+      if (!navigator.clipboard) throw new Error('clipboard access is not available on this page');
+      await navigator.clipboard.writeText(window.location.href);
+      return true;
+    } catch (err) {
+      setLinkNotice({ tone: 'error', text: `Copy failed (${err instanceof Error ? err.message : String(err)}); copy the address bar instead` });
+      return false;
+    }
+  };
+
+  const applyPreset = (preset: MarketPreset) => {
+    setMarket(prev => ({ ...prev, ...MARKET_PRESETS[preset](prev) }));
+  };
+
   return (
     <div className="flex h-screen bg-slate-950 text-slate-200 overflow-hidden font-sans">
       <aside className="w-80 flex-shrink-0 border-r border-slate-800 bg-slate-900/50 flex flex-col overflow-y-auto">
@@ -803,16 +2560,103 @@ const App = () => {
           setMarket={setMarket}
           regenerateMarket={regenerateMarket}
           applyPreset={applyPreset}
+          activePreset={activePreset}
+          imported={imported}
+        />
+        <ScenarioControls market={market} setMarket={setMarket} imported={imported} />
+        <DataImportControls
+          imported={imported}
+          importError={importError}
+          onImport={importPriceFile}
+          onClear={() => setImported(null)}
+        />
+        <AssetsControls
+          market={market}
+          setMarket={setMarket}
+          addAsset={addAsset}
+          removeAsset={removeAsset}
+          imported={imported}
+        />
+        <StrategyListControls
+          strategies={strategies}
+          activeIndex={activeStrategyIndex}
+          onSelect={setActiveStrategyIndex}
+          onAdd={addStrategy}
+          onRemove={removeStrategy}
+          onRename={renameStrategy}
         />
         <StrategyControls
           strategy={strategy}
           setStrategy={setStrategy}
+          assetNames={assetNames}
         />
       </aside>
 
       <main className="flex-1 flex flex-col h-full overflow-hidden relative">
-        {simResult && <StatsPanel simResult={simResult} />}
-        {simResult && <ChartsPanel simResult={simResult} strategy={strategy} />}
+        <div className="px-6 pt-6 flex items-center">
+          <div className="inline-flex bg-slate-800 p-1 rounded-lg border border-slate-700">
+            <button onClick={() => setViewMode('single')} className={`px-4 py-1.5 text-xs font-medium rounded transition-colors ${viewMode === 'single' ? 'bg-slate-600 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}>
+              Single Path
+            </button>
+            <button onClick={() => setViewMode('monteCarlo')} className={`px-4 py-1.5 text-xs font-medium rounded transition-colors ${viewMode === 'monteCarlo' ? 'bg-slate-600 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}>
+              Monte Carlo
+            </button>
+            <button onClick={() => setViewMode('sweep')} className={`px-4 py-1.5 text-xs font-medium rounded transition-colors ${viewMode === 'sweep' ? 'bg-slate-600 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}>
+              Sweep
+            </button>
+          </div>
+          {isSimulating && (
+            <span className="ml-4 inline-flex items-center gap-1.5 text-xs text-slate-400">
+              <Loader2 size={12} className="animate-spin" /> Simulating...
+            </span>
+          )}
+          {(error || bundleError) && (
+            <span className="ml-4 inline-flex items-center gap-1.5 text-xs text-rose-400">
+              <AlertTriangle size={12} /> {error ?? bundleError}
+            </span>
+          )}
+          <ExportToolbar canExport={!!singleRun} onExport={exportRun} onLoadBundle={loadRunBundle} onCopyLink={copyLink} />
+        </div>
+        {linkNotice && (
+          <NoticeBanner tone={linkNotice.tone} text={linkNotice.text} onDismiss={() => setLinkNotice(null)} />
+        )}
+        {pendingImportRef && !imported && (
+          <NoticeBanner
+            tone="warning"
+            text={`This link was made with imported data "${pendingImportRef.name}" (${pendingImportRef.startDate} to ${pendingImportRef.endDate}, ${pendingImportRef.observations} rows). Import that file to reproduce it; a simulated path is shown until then.`}
+            onDismiss={() => setPendingImportRef(null)}
+          />
+        )}
+        {viewMode === 'single' && simResult && <StatsPanel simResult={simResult} comparisons={comparisons} activeIndex={activeStrategyIndex} onSelect={setActiveStrategyIndex} />}
+        {viewMode === 'single' && simResult && <ChartsPanel simResult={simResult} strategy={strategy} assetNames={assetNames} comparisons={comparisons} activeIndex={activeStrategyIndex} volatilityPaths={singleRun?.volatilityPaths ?? null} scenario={!imported && isScenarioComposed(market) ? market : null} bootstrap={singleBootstrap} attributionOpen={showAttribution} onToggleAttribution={() => setShowAttribution(v => !v)} />}
+        {viewMode === 'monteCarlo' && (
+          <MonteCarloPanel
+            mcResult={mcRun?.result ?? null}
+            runs={mcRuns}
+            setRuns={setMcRuns}
+            attribute={mcAttribution}
+            setAttribute={setMcAttribution}
+            onRun={() => runMonteCarlo(market, strategy, mcRuns, mcAttribution)}
+            onCancel={cancelMonteCarlo}
+            progress={mcProgress}
+            isStale={!!mcRun && (mcRun.market !== market || mcRun.strategy !== strategy)}
+            bootstrapAssetName={mcRun ? [mcRun.market.assetName, ...mcRun.market.extraAssets.map(a => a.name)][bootstrapModelIndex(mcRun.market)] ?? '' : ''}
+          />
+        )}
+        {viewMode === 'sweep' && (
+          <SweepPanel
+            sweepResult={sweepRun?.result ?? null}
+            config={sweepConfig}
+            setConfig={setSweepConfig}
+            strategy={strategy}
+            onRun={() => runSweep(market, strategy, sweepConfig, imported)}
+            onCancel={cancelSweep}
+            onApply={applySweepCell}
+            progress={sweepProgress}
+            isStale={isSweepStale}
+            hasImported={!!imported}
+          />
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,199 @@
+import type { AllocationMode, StrategyConfig } from './types';
+
+// --- 1. Strategy Interface ---
+
+type NumericStrategyField = { [K in keyof StrategyConfig]: StrategyConfig[K] extends number ? K : never }[keyof StrategyConfig];
+
+// A StrategyConfig field the allocation strategy reads, with the range its control offers.
+export interface AllocationParam {
+  field: NumericStrategyField;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  isPercentage?: boolean;
+  integer?: boolean;
+  // Shares a row with the neighbouring half-width control.
+  half?: boolean;
+}
+
+// What a strategy sees on step t, before any of that step's trades. `path` is the first asset's prices;
+// only entries up to `t` have happened.
+export interface AllocationContext {
+  t: number;
+  path: number[];
+  rsi: number | null;
+  trend: { adx: number, sma: number } | null;
+  equity: number;
+  initialCapital: number;
+  periodsPerYear: number;
+}
+
+export interface AllocationStrategy {
+  mode: AllocationMode;
+  label: string;
+  description: string;
+  params: AllocationParam[];
+  // Reads RSI or ADX, so `indicatorMethod` changes its signal.
+  usesIndicators?: boolean;
+  // Target allocation at the start, before any signal exists.
+  initialTarget: (strategy: StrategyConfig) => number;
+  // Target allocation for the step, or null to keep the previous one (e.g. while an indicator warms up).
+  target: (strategy: StrategyConfig, context: AllocationContext) => number | null;
+}
+
+// --- 2. Signal Helpers ---
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const windowOf = (path: number[], t: number, length: number): number[] | null =>
+  length >= 1 && t + 1 >= length ? path.slice(t + 1 - length, t + 1) : null;
+
+const average = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+// Annualized standard deviation of the `length` log returns ending at t.
+const realizedVolatility = (path: number[], t: number, length: number, periodsPerYear: number): number | null => {
+  const prices = windowOf(path, t, length + 1);
+  if (!prices || length < 2) return null;
+  const returns = prices.slice(1).map((p, i) => Math.log(p / prices[i]));
+  const mu = average(returns);
+  const variance = returns.reduce((a, r) => a + (r - mu) ** 2, 0) / (returns.length - 1);
+  return Math.sqrt(variance * periodsPerYear);
+};
+
+// Full exposure in one direction, minimum in the other.
+const switchBetween = (strategy: StrategyConfig, bullish: boolean) => bullish ? strategy.maxAllocation : strategy.minAllocation;
+
+const BOUNDS: AllocationParam[] = [
+  { field: 'minAllocation', label: 'Min Alloc', min: -1, max: 3, step: 0.05, isPercentage: true, half: true },
+  { field: 'maxAllocation', label: 'Max Alloc', min: -1, max: 3, step: 0.05, isPercentage: true, half: true }
+];
+
+// --- 3. Built-in Strategies ---
+
+export const ALLOCATION_STRATEGIES: AllocationStrategy[] = [
+  {
+    mode: 'fixed',
+    label: 'Fixed Target',
+    description: 'Maintains constant exposure.',
+    params: [{ field: 'targetAllocation', label: 'Target Allocation', min: -1, max: 3, step: 0.01, isPercentage: true }],
+    initialTarget: (strategy) => strategy.targetAllocation,
+    target: (strategy) => strategy.targetAllocation
+  },
+  {
+    mode: 'rsi',
+    label: 'Auto (RSI Contrarian)',
+    description: 'Buys dips (Low RSI), Sells rips (High RSI).',
+    params: [...BOUNDS, { field: 'indicatorPeriod', label: 'RSI Period', min: 2, max: 50, step: 1, integer: true }],
+    usesIndicators: true,
+    initialTarget: () => 0.5,
+    target: (strategy, { rsi }) => {
+      if (rsi === null) return null;
+      let rsiFactor = (rsi - 30) / 40;
+      rsiFactor = Math.max(0, Math.min(1, rsiFactor));
+      return strategy.maxAllocation - (rsiFactor * (strategy.maxAllocation - strategy.minAllocation));
+    }
+  },
+  {
+    mode: 'adx',
+    label: 'Auto (Trend Following)',
+    description: 'Increases exposure during strong uptrends.',
+    params: [
+      ...BOUNDS,
+      { field: 'indicatorPeriod', label: 'ADX Period', min: 2, max: 50, step: 1, integer: true },
+      { field: 'adxThreshold', label: 'Trend Strength (ADX Threshold)', min: 10, max: 50, step: 1 }
+    ],
+    usesIndicators: true,
+    initialTarget: () => 0.5,
+    target: (strategy, { path, t, trend }) => {
+      if (trend === null) return null;
+      if (trend.adx > strategy.adxThreshold) return path[t] > trend.sma ? strategy.maxAllocation : strategy.minAllocation;
+      return (strategy.maxAllocation + strategy.minAllocation) / 2;
+    }
+  },
+  {
+    mode: 'volTarget',
+    label: 'Volatility Targeting',
+    description: 'Scales exposure so the position runs at the target volatility.',
+    params: [
+      ...BOUNDS,
+      { field: 'targetVolatility', label: 'Target Volatility', min: 0.01, max: 1, step: 0.01, isPercentage: true },
+      { field: 'indicatorPeriod', label: 'Volatility Lookback (Days)', min: 2, max: 252, step: 1, integer: true }
+    ],
+    initialTarget: (strategy) => (strategy.minAllocation + strategy.maxAllocation) / 2,
+    target: (strategy, { path, t, periodsPerYear }) => {
+      const volatility = realizedVolatility(path, t, strategy.indicatorPeriod, periodsPerYear);
+      if (volatility === null) return null;
+      return volatility > 0 ? clamp(strategy.targetVolatility / volatility, strategy.minAllocation, strategy.maxAllocation) : strategy.maxAllocation;
+    }
+  },
+  {
+    mode: 'maCrossover',
+    label: 'Moving-Average Crossover',
+    description: 'Max exposure while the fast average is above the slow one, min otherwise.',
+    params: [
+      ...BOUNDS,
+      { field: 'fastPeriod', label: 'Fast MA (Days)', min: 2, max: 200, step: 1, integer: true, half: true },
+      { field: 'slowPeriod', label: 'Slow MA (Days)', min: 3, max: 400, step: 1, integer: true, half: true }
+    ],
+    initialTarget: (strategy) => (strategy.minAllocation + strategy.maxAllocation) / 2,
+    target: (strategy, { path, t }) => {
+      const fast = windowOf(path, t, strategy.fastPeriod);
+      const slow = windowOf(path, t, strategy.slowPeriod);
+      if (!fast || !slow) return null;
+      return switchBetween(strategy, average(fast) > average(slow));
+    }
+  },
+  {
+    mode: 'bollinger',
+    label: 'Bollinger Mean-Reversion',
+    description: 'Max exposure at the lower band, min at the upper band, midway at the average.',
+    params: [
+      ...BOUNDS,
+      { field: 'indicatorPeriod', label: 'Band Period', min: 2, max: 200, step: 1, integer: true },
+      { field: 'bollingerWidth', label: 'Band Width (Std Devs)', min: 0.5, max: 4, step: 0.1 }
+    ],
+    initialTarget: (strategy) => (strategy.minAllocation + strategy.maxAllocation) / 2,
+    target: (strategy, { path, t }) => {
+      const prices = windowOf(path, t, strategy.indicatorPeriod);
+      if (!prices || prices.length < 2) return null;
+      const mid = (strategy.minAllocation + strategy.maxAllocation) / 2;
+      const sma = average(prices);
+      const sd = Math.sqrt(prices.reduce((a, p) => a + (p - sma) ** 2, 0) / prices.length);
+      if (sd === 0 || strategy.bollingerWidth <= 0) return mid;
+      const position = (path[t] - sma) / (sd * strategy.bollingerWidth);
+      return clamp(mid - position * (strategy.maxAllocation - strategy.minAllocation) / 2, strategy.minAllocation, strategy.maxAllocation);
+    }
+  },
+  {
+    mode: 'momentum',
+    label: 'Time-Series Momentum',
+    description: 'Max exposure after a positive return over the lookback, min after a negative one.',
+    params: [...BOUNDS, { field: 'momentumLookback', label: 'Lookback (Days)', min: 5, max: 504, step: 1, integer: true }],
+    initialTarget: (strategy) => (strategy.minAllocation + strategy.maxAllocation) / 2,
+    target: (strategy, { path, t }) => {
+      const prices = windowOf(path, t, strategy.momentumLookback + 1);
+      if (!prices) return null;
+      return switchBetween(strategy, prices[prices.length - 1] > prices[0]);
+    }
+  },
+  {
+    mode: 'cppi',
+    label: 'CPPI (Portfolio Insurance)',
+    description: 'Exposure is the multiplier times the cushion above the floor; falls to cash as equity nears the floor.',
+    params: [
+      { field: 'maxAllocation', label: 'Max Alloc', min: 0, max: 3, step: 0.05, isPercentage: true },
+      { field: 'cppiFloor', label: 'Floor (of Initial Capital)', min: 0, max: 1, step: 0.05, isPercentage: true, half: true },
+      { field: 'cppiMultiplier', label: 'Multiplier', min: 1, max: 10, step: 0.5, half: true }
+    ],
+    initialTarget: (strategy) => clamp(strategy.cppiMultiplier * (1 - strategy.cppiFloor), 0, strategy.maxAllocation),
+    target: (strategy, { equity, initialCapital }) => {
+      if (equity <= 0) return 0;
+      const cushion = Math.max(0, equity - strategy.cppiFloor * initialCapital);
+      return clamp(strategy.cppiMultiplier * cushion / equity, 0, strategy.maxAllocation);
+    }
+  }
+];
+
+export const getAllocationStrategy = (mode: AllocationMode): AllocationStrategy =>
+  ALLOCATION_STRATEGIES.find(s => s.mode === mode) ?? ALLOCATION_STRATEGIES[0];
@@ -0,0 +1,128 @@
+import type { AssetModel, MarketConfig, StrategyConfig, SweepConfig, MarketPreset } from './types';
+
+// --- 1. Default Configs ---
+
+// Starting point for a fresh session and the fallback for fields missing from older saved scenarios.
+export const DEFAULT_ASSET_MODEL: AssetModel = {
+  initialPrice: 100,
+  type: 'GBM',
+  drift: 0.05,
+  volatility: 0.40,
+  meanReversionSpeed: 5.0,
+  longTermMean: 100,
+  jumpIntensity: 2,
+  jumpMean: -0.15,
+  jumpStdDev: 0.1,
+  hestonKappa: 3.0,
+  hestonTheta: 0.16,
+  hestonVolOfVol: 0.5,
+  hestonRho: -0.7,
+  garchAlpha: 0.08,
+  garchBeta: 0.9,
+  regimes: [
+    { name: 'Bull', drift: 0.20, volatility: 0.15, expectedDays: 120 },
+    { name: 'Bear', drift: -0.25, volatility: 0.35, expectedDays: 60 }
+  ],
+  bootstrapMethod: 'stationary',
+  bootstrapBlockLength: 10,
+  bootstrapReturns: [],
+  bootstrapSource: ''
+};
+
+export const DEFAULT_MARKET: MarketConfig = {
+  ...DEFAULT_ASSET_MODEL,
+  days: 365,
+  seed: 0,
+  intradayBars: false,
+  intradaySteps: 24,
+  assetName: 'Asset 1',
+  extraAssets: [],
+  correlation: [[1]],
+  scenarioEnabled: false,
+  segments: [
+    { ...DEFAULT_ASSET_MODEL, type: 'GBM', drift: 0.25, volatility: 0.20, days: 100 },
+    { ...DEFAULT_ASSET_MODEL, type: 'OU', volatility: 0.30, meanReversionSpeed: 6.0, longTermMean: 90, days: 200 }
+  ],
+  shocks: [{ kind: 'gap', day: 100, size: -0.30, duration: 1 }]
+};
+
+export const DEFAULT_STRATEGY: StrategyConfig = {
+  initialCapital: 10000,
+  allocationMode: 'fixed',
+  targetAllocation: 0.50,
+  assetWeights: [1],
+  minAllocation: 0.20,
+  maxAllocation: 0.80,
+  indicatorPeriod: 14,
+  adxThreshold: 25,
+  indicatorMethod: 'wilder',
+  targetVolatility: 0.15,
+  fastPeriod: 20,
+  slowPeriod: 50,
+  bollingerWidth: 2,
+  momentumLookback: 126,
+  cppiFloor: 0.8,
+  cppiMultiplier: 3,
+  rebalanceType: 'threshold',
+  rebalanceThreshold: 0.05,
+  lowerRebalanceThreshold: 0.05,
+  asymmetricBands: false,
+  bandType: 'absolute',
+  rebalanceFrequency: 30,
+  rebalanceTo: 'target',
+  partialRebalanceFraction: 0.5,
+  minDaysBetweenRebalances: 0,
+  transactionFeeRate: 0.001,
+  spread: 0,
+  slippageImpact: 0,
+  dailyLiquidity: 1000000,
+  fixedFee: 0,
+  minTradeNotional: 1,
+  wholeUnits: false,
+  riskFreeRate: 0,
+  cashYield: 0,
+  assetYield: 0,
+  assetYieldMode: 'cash',
+  borrowRate: 0,
+  lotMethod: 'FIFO',
+  longTermDays: 252,
+  shortTermTaxRate: 0,
+  longTermTaxRate: 0,
+  cashFlowType: 'fixed',
+  cashFlowAmount: 0,
+  cashFlowPercent: 0,
+  cashFlowFrequency: 21,
+  inflationRate: 0.03,
+  inflationAdjusted: false,
+  flowRebalancing: false,
+  maintenanceMargin: 0.25
+};
+
+export const DEFAULT_STRATEGY_NAME = 'Strategy 1';
+
+// Upper bound on strategies compared side by side on one path.
+export const MAX_STRATEGIES = 6;
+
+export const DEFAULT_SWEEP: SweepConfig = {
+  x: { field: 'rebalanceThreshold', from: 0.01, to: 0.2, step: 0.01 },
+  y: { field: 'transactionFeeRate', from: 0, to: 0.005, step: 0.0005 },
+  pathMode: 'current',
+  paths: 50
+};
+
+// --- 2. Market Presets ---
+
+export const MARKET_PRESETS: Record<MarketPreset, (market: MarketConfig) => Partial<MarketConfig>> = {
+  BULL: () => ({ type: 'GBM', drift: 0.25, volatility: 0.20 }),
+  BEAR: () => ({ type: 'GBM', drift: -0.20, volatility: 0.25 }),
+  SIDEWAYS: (market) => ({ type: 'OU', meanReversionSpeed: 6.0, volatility: 0.30, longTermMean: market.initialPrice }),
+  VOLATILE: () => ({ type: 'GBM', drift: 0.0, volatility: 0.80 }),
+  CRASH: () => ({ type: 'JUMP', drift: 0.05, volatility: 0.20, jumpIntensity: 3, jumpMean: -0.20, jumpStdDev: 0.05 })
+};
+
+// A preset is active while every field it sets still holds its preset value.
+export const getActivePreset = (market: MarketConfig): MarketPreset | null => {
+  const presets = Object.keys(MARKET_PRESETS) as MarketPreset[];
+  return presets.find(preset => Object.entries(MARKET_PRESETS[preset](market))
+    .every(([key, value]) => market[key as keyof MarketConfig] === value)) ?? null;
+};
@@ -0,0 +1,1583 @@
+import type {
+  AlphaAttribution,
+  AssetModel,
+  MarketConfig,
+  StrategyConfig,
+  StepData,
+  SimulationResult,
+  ExecutionCosts,
+  TaxSummary,
+  CarryTotals,
+  CashFlowSummary,
+  MarginSummary,
+  OhlcBars,
+  PerformanceMetrics,
+  MarketRegime,
+  RegimeStats,
+  RollingMetrics,
+  ReturnMoments,
+  DistributionSummary,
+  HistogramBin,
+  EquityBand,
+  MonteCarloResult,
+  RunControl,
+  SweepField,
+  SweepAxis,
+  SweepConfig,
+  SweepCell,
+  SweepResult,
+  TradeTrigger
+} from './types';
+import { getAllocationStrategy } from './allocation';
+
+// --- 1. Math & Generator Functions (Pure JS, Client-Side) ---
+
+export type Rng = () => number;
+
+// Mulberry32: small, fast 32-bit PRNG. Same seed => same sequence, so a path can be reproduced exactly.
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296) >>> 0;
+
+const generateGaussian = (mean: number, stdDev: number, rng: Rng): number => {
+  let u = 0, v = 0;
+  while (u === 0) u = rng();
+  while (v === 0) v = rng();
+  const z = Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
+  return z * stdDev + mean;
+};
+
+interface PriceStepper {
+  // `volScale` multiplies the step's volatility (a scenario volatility spike), drift correction included, so a
+  // spike widens the moves without shifting the mean price.
+  step: (prevPrice: number, shock: number, volScale?: number) => number;
+  // Annualized volatility the next step will be drawn with.
+  volatility: () => number;
+  // Regime the next step will be drawn in, for regime-switching models only.
+  regime?: () => number;
+}
+
+const TRADING_DAYS_PER_YEAR = 252;
+
+// Each stepper advances its model by one day given a standard normal `shock`. Shocks are drawn by the
+// caller so they can be correlated across assets; any other randomness (jumps, variance shocks) comes from `rng`.
+const createGBMStepper = (model: AssetModel): PriceStepper => {
+  const dt = 1 / TRADING_DAYS_PER_YEAR;
+  return {
+    step: (prevPrice, shock, volScale = 1) => {
+      const volatility = model.volatility * volScale;
+      const driftComponent = (model.drift - 0.5 * Math.pow(volatility, 2)) * dt;
+      const diffusionComponent = volatility * Math.sqrt(dt) * shock;
+      return prevPrice * Math.exp(driftComponent + diffusionComponent);
+    },
+    volatility: () => model.volatility
+  };
+};
+
+const createOUStepper = (model: AssetModel): PriceStepper => {
+  const dt = 1 / TRADING_DAYS_PER_YEAR;
+  let currentLogPrice = Math.log(model.initialPrice);
+  let lastPrice = model.initialPrice;
+  const targetLogPrice = Math.log(model.longTermMean);
+  return {
+    step: (prevPrice, shock, volScale = 1) => {
+      // The log price is tracked internally; it is only re-read when the price was moved from outside (a scenario gap).
+      if (prevPrice !== lastPrice) currentLogPrice = Math.log(prevPrice);
+      const dX = model.meanReversionSpeed * (targetLogPrice - currentLogPrice) * dt + model.volatility * volScale * Math.sqrt(dt) * shock;
+      currentLogPrice += dX;
+      lastPrice = Math.exp(currentLogPrice);
+      return lastPrice;
+    },
+    volatility: () => model.volatility
+  };
+};
+
+const createJumpStepper = (model: AssetModel, rng: Rng): PriceStepper => {
+  const dt = 1 / TRADING_DAYS_PER_YEAR;
+  return {
+    step: (prevPrice, shock, volScale = 1) => {
+      const volatility = model.volatility * volScale;
+      const driftComponent = (model.drift - 0.5 * Math.pow(volatility, 2)) * dt;
+      const diffusionComponent = volatility * Math.sqrt(dt) * shock;
+      let jumpComponent = 0;
+      if (rng() < model.jumpIntensity * dt) {
+        jumpComponent = generateGaussian(model.jumpMean, model.jumpStdDev, rng);
+      }
+      return prevPrice * Math.exp(driftComponent + diffusionComponent + jumpComponent);
+    },
+    volatility: () => model.volatility
+  };
+};
+
+// Heston: variance follows a CIR process (full-truncation Euler) whose shocks correlate with the price shock
+// by `hestonRho`. `volatility` is the starting volatility.
+const createHestonStepper = (model: AssetModel, rng: Rng): PriceStepper => {
+  const dt = 1 / TRADING_DAYS_PER_YEAR;
+  let variance = Math.pow(model.volatility, 2);
+  const rho = Math.max(-1, Math.min(1, model.hestonRho));
+  return {
+    step: (prevPrice, shock, volScale = 1) => {
+      const v = Math.max(variance, 0);
+      const varianceShock = rho * shock + Math.sqrt(1 - rho * rho) * generateGaussian(0, 1, rng);
+      const logReturn = (model.drift - 0.5 * v * volScale * volScale) * dt + volScale * Math.sqrt(v * dt) * shock;
+      variance += model.hestonKappa * (model.hestonTheta - v) * dt + model.hestonVolOfVol * Math.sqrt(v * dt) * varianceShock;
+      return prevPrice * Math.exp(logReturn);
+    },
+    volatility: () => Math.sqrt(Math.max(variance, 0))
+  };
+};
+
+// GARCH(1,1) on daily log returns. `volatility` is the long-run annual volatility the variance reverts to,
+// which fixes omega; the process starts there.
+const createGarchStepper = (model: AssetModel): PriceStepper => {
+  const persistence = model.garchAlpha + model.garchBeta;
+  if (persistence >= 1) throw new Error('GARCH alpha + beta must be below 1');
+  const longRunVariance = Math.pow(model.volatility, 2) / TRADING_DAYS_PER_YEAR;
+  const omega = longRunVariance * (1 - persistence);
+  let variance = longRunVariance;
+  return {
+    step: (prevPrice, shock, volScale = 1) => {
+      // A spike scales the return only; feeding it into the recursion could push persistence past 1.
+      const innovation = Math.sqrt(variance) * shock;
+      const logReturn = model.drift / TRADING_DAYS_PER_YEAR - 0.5 * variance * volScale * volScale + volScale * innovation;
+      variance = omega + model.garchAlpha * innovation * innovation + model.garchBeta * variance;
+      return prevPrice * Math.exp(logReturn);
+    },
+    volatility: () => Math.sqrt(variance * TRADING_DAYS_PER_YEAR)
+  };
+};
+
+// GBM whose drift and volatility come from the current regime. After each day the regime is left with
+// probability 1 / expectedDays, moving to one of the other regimes with equal odds.
+const createRegimeStepper = (model: AssetModel, rng: Rng): PriceStepper => {
+  const { regimes } = model;
+  if (regimes.length === 0) throw new Error('Regime-switching model needs at least one regime');
+  const dt = 1 / TRADING_DAYS_PER_YEAR;
+  let current = 0;
+  return {
+    step: (prevPrice, shock, volScale = 1) => {
+      const { drift, expectedDays } = regimes[current];
+      const volatility = regimes[current].volatility * volScale;
+      const price = prevPrice * Math.exp((drift - 0.5 * Math.pow(volatility, 2)) * dt + volatility * Math.sqrt(dt) * shock);
+      if (regimes.length > 1 && rng() < 1 / Math.max(1, expectedDays)) {
+        const other = Math.floor(rng() * (regimes.length - 1));
+        current = other >= current ? other + 1 : other;
+      }
+      return price;
+    },
+    volatility: () => regimes[current].volatility,
+    regime: () => current
+  };
+};
+
+// Replays the source's daily log returns instead of drawing normal ones, so fat tails and short-range
+// autocorrelation carry over. Each block starts at a random day and runs on through consecutive days, wrapping at
+// the end of the source. 'block' uses fixed-length blocks; 'stationary' ends a block each day with probability
+// 1 / blockLength. The correlated `shock` is not used, so a bootstrapped asset ignores the correlation matrix.
+// A volatility spike scales each replayed return's distance from the source mean, less the correction that keeps
+// the source's mean gross return.
+const createBootstrapStepper = (model: AssetModel, rng: Rng): PriceStepper => {
+  const returns = model.bootstrapReturns;
+  if (returns.length < 2) throw new Error('Bootstrap model needs a source series: import or paste at least 3 prices');
+  const blockLength = Math.max(1, Math.round(model.bootstrapBlockLength));
+  const meanReturn = mean(returns);
+  const grossOf = (volScale: number) => Math.log(mean(returns.map(r => Math.exp(volScale * (r - meanReturn)))));
+  const corrections = new Map<number, number>();
+  const correction = (volScale: number) => {
+    if (!corrections.has(volScale)) corrections.set(volScale, grossOf(volScale) - grossOf(1));
+    return corrections.get(volScale)!;
+  };
+  const annualVolatility = stdDev(returns) * Math.sqrt(TRADING_DAYS_PER_YEAR);
+  let index = -1;
+  let blockDay = 0;
+  return {
+    step: (prevPrice, _shock, volScale = 1) => {
+      const endsBlock = model.bootstrapMethod === 'stationary' ? rng() < 1 / blockLength : blockDay >= blockLength;
+      if (index === -1 || endsBlock) {
+        index = Math.floor(rng() * returns.length);
+        blockDay = 0;
+      } else {
+        index = (index + 1) % returns.length;
+      }
+      blockDay++;
+      if (volScale === 1) return prevPrice * Math.exp(returns[index]);
+      const spiked = meanReturn + volScale * (returns[index] - meanReturn) - correction(volScale);
+      return prevPrice * Math.exp(spiked);
+    },
+    volatility: () => annualVolatility
+  };
+};
+
+const createStepper = (model: AssetModel, rng: Rng): PriceStepper => {
+  switch (model.type) {
+    case 'OU': return createOUStepper(model);
+    case 'JUMP': return createJumpStepper(model, rng);
+    case 'HESTON': return createHestonStepper(model, rng);
+    case 'GARCH': return createGarchStepper(model);
+    case 'REGIME': return createRegimeStepper(model, rng);
+    case 'BOOTSTRAP': return createBootstrapStepper(model, rng);
+    case 'GBM': default: return createGBMStepper(model);
+  }
+};
+
+export const isScenarioComposed = (config: MarketConfig): boolean => config.scenarioEnabled && config.segments.length > 0;
+
+// Path length in days: the segments' total when a scenario is composed, else `days`.
+export const scenarioDays = (config: MarketConfig): number =>
+  isScenarioComposed(config) ? config.segments.reduce((sum, segment) => sum + Math.max(1, Math.round(segment.days)), 0) : config.days;
+
+// Chains the scenario's segments for the first asset: each segment gets a fresh stepper of its own model that
+// starts from the previous segment's last price. Shocks are applied on top of whichever segment is running.
+const createScenarioStepper = (config: MarketConfig, rng: Rng): PriceStepper => {
+  const segmentEnds: number[] = [];
+  config.segments.reduce((end, segment) => {
+    segmentEnds.push(end + Math.max(1, Math.round(segment.days)));
+    return segmentEnds[segmentEnds.length - 1];
+  }, 0);
+  const volMultiplier = (day: number) => config.shocks
+    .filter(shock => shock.kind === 'volSpike' && day >= shock.day && day < shock.day + shock.duration)
+    .reduce((m, shock) => m * Math.max(0, shock.size), 1);
+  let day = 0;
+  let segmentIndex = 0;
+  let stepper = createStepper({ ...config.segments[0], initialPrice: config.initialPrice }, rng);
+  return {
+    step: (prevPrice, shock) => {
+      day++;
+      let price = stepper.step(prevPrice, shock, volMultiplier(day));
+      config.shocks.forEach(s => {
+        if (s.kind === 'gap' && s.day === day) price *= Math.max(0.01, 1 + s.size);
+      });
+      if (day >= segmentEnds[segmentIndex] && segmentIndex < config.segments.length - 1) {
+        segmentIndex++;
+        stepper = createStepper({ ...config.segments[segmentIndex], initialPrice: price }, rng);
+      }
+      return price;
+    },
+    volatility: () => stepper.volatility() * volMultiplier(day + 1)
+  };
+};
+
+// Fills gaps in a user-entered matrix: 1 on the diagonal, 0 where an entry is missing, symmetric from the upper triangle.
+export const normalizeCorrelation = (matrix: number[][], size: number): number[][] =>
+  Array.from({ length: size }, (_, i) => Array.from({ length: size }, (_, j) => {
+    if (i === j) return 1;
+    const [r, c] = i < j ? [i, j] : [j, i];
+    return matrix[r]?.[c] ?? 0;
+  }));
+
+// Lower-triangular L with L * L^T = matrix. Throws if the matrix is not a valid (positive definite) correlation matrix.
+export const choleskyDecompose = (matrix: number[][]): number[][] => {
+  const n = matrix.length;
+  const lower = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = 0;
+      for (let k = 0; k < j; k++) sum += lower[i][k] * lower[j][k];
+      if (i === j) {
+        const d = matrix[i][i] - sum;
+        if (d <= 1e-12) throw new Error('Correlation matrix is not positive definite');
+        lower[i][j] = Math.sqrt(d);
+      } else {
+        lower[i][j] = (matrix[i][j] - sum) / lower[j][j];
+      }
+    }
+  }
+  return lower;
+};
+
+export interface MarketPaths {
+  prices: number[][];
+  // Annualized volatility each step was drawn with (day 0: the starting volatility), per asset.
+  volatility: number[][];
+  // Regime each step was drawn in, per asset; null for assets without a regime-switching model.
+  regimes: (number[] | null)[];
+  // Intraday bars per asset, when the market has `intradayBars` on.
+  ohlc: OhlcBars[] | null;
+}
+
+// Returns one path per asset (first asset first), all driven by the same seed and correlated shocks.
+export const generateMarketPaths = (config: MarketConfig): MarketPaths => {
+  const rng = createRng(config.seed);
+  const models: AssetModel[] = [config, ...config.extraAssets];
+  const cholesky = choleskyDecompose(normalizeCorrelation(config.correlation, models.length));
+  const steppers = models.map((model, a) => a === 0 && isScenarioComposed(config) ? createScenarioStepper(config, rng) : createStepper(model, rng));
+  const prices = models.map(model => [model.initialPrice]);
+  const volatility = steppers.map(stepper => [stepper.volatility()]);
+  const regimes = steppers.map(stepper => stepper.regime ? [stepper.regime()] : null);
+  const days = scenarioDays(config);
+  for (let i = 1; i <= days; i++) {
+    const independent = models.map(() => generateGaussian(0, 1, rng));
+    steppers.forEach((stepper, a) => {
+      let shock = 0;
+      for (let k = 0; k <= a; k++) shock += cholesky[a][k] * independent[k];
+      volatility[a].push(stepper.volatility());
+      if (stepper.regime) regimes[a]?.push(stepper.regime());
+      prices[a].push(stepper.step(prices[a][i - 1], shock));
+    });
+  }
+  // The bars draw from a stream of their own so switching them on leaves the closes untouched.
+  const barRng = createRng((config.seed ^ 0x5BD1E995) >>> 0);
+  const ohlc = config.intradayBars ? prices.map((path, a) => generateIntradayBars(path, volatility[a], config.intradaySteps, barRng)) : null;
+  return { prices, volatility, regimes, ohlc };
+};
+
+// Sub-steps each day as a Brownian bridge in log price from the previous close to the day's close, scaled by the
+// volatility the day was drawn with. The open is the previous close; the high and low are the sub-path's extremes.
+export const generateIntradayBars = (closes: number[], volatility: number[], steps: number, rng: Rng): OhlcBars => {
+  const subSteps = Math.max(2, Math.round(steps));
+  const bars: OhlcBars = { open: [closes[0]], high: [closes[0]], low: [closes[0]] };
+  for (let i = 1; i < closes.length; i++) {
+    const open = closes[i - 1];
+    const close = closes[i];
+    let high = Math.max(open, close);
+    let low = Math.min(open, close);
+    if (open > 0 && close > 0) {
+      const stepStdDev = (volatility[i] ?? 0) * Math.sqrt(1 / (TRADING_DAYS_PER_YEAR * subSteps));
+      const walk = [0];
+      for (let k = 1; k <= subSteps; k++) walk.push(walk[k - 1] + generateGaussian(0, stepStdDev, rng));
+      const logOpen = Math.log(open);
+      const logMove = Math.log(close) - logOpen;
+      for (let k = 1; k < subSteps; k++) {
+        const fraction = k / subSteps;
+        const price = Math.exp(logOpen + logMove * fraction + walk[k] - fraction * walk[subSteps]);
+        high = Math.max(high, price);
+        low = Math.min(low, price);
+      }
+    }
+    bars.open.push(open);
+    bars.high.push(high);
+    bars.low.push(low);
+  }
+  return bars;
+};
+
+// First asset priced by `type`; a composed scenario replaces the first asset's own model, so it is skipped then.
+const modelIndex = (market: MarketConfig, type: AssetModel['type']): number =>
+  [market, ...market.extraAssets].findIndex((model, a) => model.type === type && !(a === 0 && isScenarioComposed(market)));
+
+// The regime timeline shown and analysed is the first asset's that uses the regime-switching model.
+export const regimeModelIndex = (market: MarketConfig): number => modelIndex(market, 'REGIME');
+
+// Return moments are compared for the first bootstrapped asset only.
+export const bootstrapModelIndex = (market: MarketConfig): number => modelIndex(market, 'BOOTSTRAP');
+
+export const generatePricePaths = (config: MarketConfig): number[][] => generateMarketPaths(config).prices;
+
+// --- 2. Technical Indicators Logic ---
+
+// One bar as the indicators see it; without intraday data the high and low are the close.
+export interface IndicatorBar {
+  high: number;
+  low: number;
+  close: number;
+}
+
+export interface TrendReading {
+  adx: number;
+  sma: number;
+  plusDI: number;
+  minusDI: number;
+}
+
+// Each returns null until it has enough history.
+export interface TechnicalIndicators {
+  updateRSI(price: number, prevPrice: number): number | null;
+  updateTrend(bar: IndicatorBar, prevBar: IndicatorBar): TrendReading | null;
+}
+
+// The original approximations: RSI from simple averages over the window, and "ADX" as the raw DX of the window's
+// summed close-to-close moves. Kept so runs made with them can be reproduced.
+export class LegacyIndicators implements TechnicalIndicators {
+  private gains: number[] = [];
+  private losses: number[] = [];
+  private tr: number[] = [];
+  private dmPlus: number[] = [];
+  private dmMinus: number[] = [];
+  private prices: number[] = [];
+
+  constructor(private period: number) { }
+
+  updateRSI(price: number, prevPrice: number): number | null {
+    const change = price - prevPrice;
+    const gain = change > 0 ? change : 0;
+    const loss = change < 0 ? -change : 0;
+    this.gains.push(gain);
+    this.losses.push(loss);
+    if (this.gains.length > this.period) {
+      this.gains.shift();
+      this.losses.shift();
+    }
+    if (this.gains.length < this.period) return null;
+    const avgGain = this.gains.reduce((a, b) => a + b, 0) / this.period;
+    const avgLoss = this.losses.reduce((a, b) => a + b, 0) / this.period;
+    if (avgLoss === 0) return 100;
+    const rs = avgGain / avgLoss;
+    return 100 - (100 / (1 + rs));
+  }
+
+  updateTrend(bar: IndicatorBar, prevBar: IndicatorBar): TrendReading | null {
+    const price = bar.close;
+    const prevPrice = prevBar.close;
+    this.prices.push(price);
+    if (this.prices.length > this.period) this.prices.shift();
+    const currentTR = Math.abs(price - prevPrice);
+    const moveUp = price - prevPrice;
+    const moveDown = prevPrice - price;
+    const currentDMPlus = (moveUp > 0 && moveUp > moveDown) ? moveUp : 0;
+    const currentDMMinus = (moveDown > 0 && moveDown > moveUp) ? moveDown : 0;
+    this.tr.push(currentTR);
+    this.dmPlus.push(currentDMPlus);
+    this.dmMinus.push(currentDMMinus);
+    if (this.tr.length > this.period) {
+      this.tr.shift();
+      this.dmPlus.shift();
+      this.dmMinus.shift();
+    }
+    if (this.tr.length < this.period) return null;
+    const sumTR = this.tr.reduce((a, b) => a + b, 0);
+    const sumDMPlus = this.dmPlus.reduce((a, b) => a + b, 0);
+    const sumDMMinus = this.dmMinus.reduce((a, b) => a + b, 0);
+    const sma = this.prices.reduce((a, b) => a + b, 0) / this.period;
+    if (sumTR === 0) return { adx: 0, sma, plusDI: 0, minusDI: 0 };
+    const diPlus = (sumDMPlus / sumTR) * 100;
+    const diMinus = (sumDMMinus / sumTR) * 100;
+    const dx = Math.abs(diPlus - diMinus) / ((diPlus + diMinus) === 0 ? 1 : (diPlus + diMinus)) * 100;
+    return { adx: dx, sma, plusDI: diPlus, minusDI: diMinus };
+  }
+}
+
+// Wilder's RSI and ADX. Averages start as the mean of the first `period` values and then move 1 / period of the way
+// to each new one. True range and directional movement use highs and lows, and ADX is the smoothed DX, so it first
+// appears after 2 x period - 1 steps.
+export class WilderIndicators implements TechnicalIndicators {
+  private rsiSteps = 0;
+  private avgGain = 0;
+  private avgLoss = 0;
+  private trendSteps = 0;
+  private avgTR = 0;
+  private avgDMPlus = 0;
+  private avgDMMinus = 0;
+  private dxSteps = 0;
+  private adx = 0;
+  private prices: number[] = [];
+
+  constructor(private period: number) { }
+
+  private smooth(average: number, value: number, steps: number): number {
+    return steps <= this.period ? average + value / this.period : average + (value - average) / this.period;
+  }
+
+  updateRSI(price: number, prevPrice: number): number | null {
+    const change = price - prevPrice;
+    this.rsiSteps++;
+    this.avgGain = this.smooth(this.avgGain, Math.max(0, change), this.rsiSteps);
+    this.avgLoss = this.smooth(this.avgLoss, Math.max(0, -change), this.rsiSteps);
+    if (this.rsiSteps < this.period) return null;
+    if (this.avgLoss === 0) return this.avgGain === 0 ? 50 : 100;
+    return 100 - (100 / (1 + this.avgGain / this.avgLoss));
+  }
+
+  updateTrend(bar: IndicatorBar, prevBar: IndicatorBar): TrendReading | null {
+    this.prices.push(bar.close);
+    if (this.prices.length > this.period) this.prices.shift();
+    const trueRange = Math.max(bar.high - bar.low, Math.abs(bar.high - prevBar.close), Math.abs(bar.low - prevBar.close));
+    const moveUp = bar.high - prevBar.high;
+    const moveDown = prevBar.low - bar.low;
+    this.trendSteps++;
+    this.avgTR = this.smooth(this.avgTR, trueRange, this.trendSteps);
+    this.avgDMPlus = this.smooth(this.avgDMPlus, (moveUp > 0 && moveUp > moveDown) ? moveUp : 0, this.trendSteps);
+    this.avgDMMinus = this.smooth(this.avgDMMinus, (moveDown > 0 && moveDown > moveUp) ? moveDown : 0, this.trendSteps);
+    if (this.trendSteps < this.period) return null;
+    const plusDI = this.avgTR > 0 ? (this.avgDMPlus / this.avgTR) * 100 : 0;
+    const minusDI = this.avgTR > 0 ? (this.avgDMMinus / this.avgTR) * 100 : 0;
+    const dx = plusDI + minusDI > 0 ? Math.abs(plusDI - minusDI) / (plusDI + minusDI) * 100 : 0;
+    this.dxSteps++;
+    this.adx = this.smooth(this.adx, dx, this.dxSteps);
+    if (this.dxSteps < this.period) return null;
+    const sma = this.prices.reduce((a, b) => a + b, 0) / this.prices.length;
+    return { adx: this.adx, sma, plusDI, minusDI };
+  }
+}
+
+export const createIndicators = (strategy: StrategyConfig): TechnicalIndicators =>
+  strategy.indicatorMethod === 'legacy' ? new LegacyIndicators(strategy.indicatorPeriod) : new WilderIndicators(strategy.indicatorPeriod);
+
+// --- 3. Simulation Engine ---
+
+// Normalized split of the risky allocation across `count` assets. Missing or all-zero weights fall back to equal weight.
+export const normalizeAssetWeights = (weights: number[], count: number): number[] => {
+  const raw = Array.from({ length: count }, (_, i) => Math.max(0, weights[i] ?? 0));
+  const sum = raw.reduce((a, b) => a + b, 0);
+  return sum > 0 ? raw.map(w => w / sum) : raw.map(() => 1 / count);
+};
+
+// Widths of the band below and above a target weight.
+export const rebalanceBands = (strategy: StrategyConfig, target: number): { lower: number, upper: number } => {
+  const scale = strategy.bandType === 'relative' ? Math.abs(target) : 1;
+  const lower = strategy.asymmetricBands ? strategy.lowerRebalanceThreshold : strategy.rebalanceThreshold;
+  return { lower: lower * scale, upper: strategy.rebalanceThreshold * scale };
+};
+
+interface CashFlow {
+  // Years since the start.
+  time: number;
+  amount: number;
+}
+
+interface TaxLot {
+  day: number;
+  units: number;
+  cost: number;
+}
+
+// Open tax lots per asset for one portfolio. Realized gains are split by holding period; a net loss in either
+// bucket joins a carry-forward pool that offsets later gains, short-term gains first.
+const createLotBook = (strategy: StrategyConfig, assetCount: number) => {
+  const lots: TaxLot[][] = Array.from({ length: assetCount }, () => []);
+  let lossCarry = 0;
+  let realizedShortTerm = 0;
+  let realizedLongTerm = 0;
+  let taxesPaid = 0;
+
+  const isLongTerm = (lot: TaxLot, day: number) => day - lot.day >= strategy.longTermDays;
+  const nextLot = (open: TaxLot[]): number => {
+    if (strategy.lotMethod === 'LIFO') return open.length - 1;
+    if (strategy.lotMethod === 'HIFO') return open.reduce((best, lot, i) => lot.cost > open[best].cost ? i : best, 0);
+    return 0;
+  };
+  const taxOn = (shortTerm: number, longTerm: number, pool: number) => {
+    let losses = pool + Math.max(0, -shortTerm) + Math.max(0, -longTerm);
+    const [taxableShort, taxableLong] = [shortTerm, longTerm].map(gain => {
+      const offset = Math.min(losses, Math.max(0, gain));
+      losses -= offset;
+      return Math.max(0, gain) - offset;
+    });
+    return { tax: taxableShort * strategy.shortTermTaxRate + taxableLong * strategy.longTermTaxRate, pool: losses };
+  };
+
+  return {
+    buy: (asset: number, day: number, units: number, cost: number) => {
+      if (units > 0) lots[asset].push({ day, units, cost });
+    },
+    // Sells `units[a]` of each asset at `prices[a]`, consuming lots in `lotMethod` order. Returns the step's
+    // realized gain and the tax due on it.
+    sell: (day: number, units: number[], prices: (number | null)[]): { gain: number, tax: number } => {
+      let shortTerm = 0;
+      let longTerm = 0;
+      units.forEach((amount, a) => {
+        const open = lots[a];
+        const price = prices[a] ?? 0;
+        let remaining = amount;
+        while (remaining > 0 && open.length > 0) {
+          const i = nextLot(open);
+          const lot = open[i];
+          const take = Math.min(lot.units, remaining);
+          const gain = take * (price - lot.cost);
+          if (isLongTerm(lot, day)) longTerm += gain;
+          else shortTerm += gain;
+          remaining -= take;
+          if (take === lot.units) open.splice(i, 1);
+          else lot.units -= take;
+        }
+      });
+      const { tax, pool } = taxOn(shortTerm, longTerm, lossCarry);
+      lossCarry = pool;
+      realizedShortTerm += shortTerm;
+      realizedLongTerm += longTerm;
+      taxesPaid += tax;
+      return { gain: shortTerm + longTerm, tax };
+    },
+    summarize: (day: number, prices: number[], finalValue: number, initialCapital: number): TaxSummary => {
+      let shortTerm = 0;
+      let longTerm = 0;
+      lots.forEach((open, a) => open.forEach(lot => {
+        const gain = lot.units * (prices[a] - lot.cost);
+        if (isLongTerm(lot, day)) longTerm += gain;
+        else shortTerm += gain;
+      }));
+      const unrealizedLiability = taxOn(shortTerm, longTerm, lossCarry).tax;
+      const afterTaxValue = finalValue - unrealizedLiability;
+      return {
+        realizedShortTerm,
+        realizedLongTerm,
+        taxesPaid,
+        unrealizedLiability,
+        afterTaxValue,
+        afterTaxReturn: (afterTaxValue - initialCapital) / initialCapital
+      };
+    }
+  };
+};
+
+// `pricePath` drives the indicators; `extraPaths` are the additional assets, in `market.extraAssets` order.
+// `dates`, when given (imported data), labels each step with its calendar date; `regimePath`, when given,
+// tags each step with its regime and adds per-regime returns to the result. `ohlc`, when given, is the first
+// asset's intraday bars; the Wilder indicators read their highs and lows.
+export const runSimulation = (
+  market: MarketConfig,
+  strategy: StrategyConfig,
+  pricePath: number[],
+  extraPaths: number[][] = [],
+  dates: string[] = [],
+  regimePath: number[] = [],
+  ohlc: OhlcBars | null = null
+): SimulationResult => {
+  const data: StepData[] = [];
+  let totalFees = 0;
+  let totalTraded = 0;
+  let rebalanceCount = 0;
+  const indicators = createIndicators(strategy);
+  const barAt = (t: number): IndicatorBar => ({ high: ohlc?.high[t] ?? pricePath[t], low: ohlc?.low[t] ?? pricePath[t], close: pricePath[t] });
+  const paths = [pricePath, ...extraPaths];
+  const periodsPerYear = inferPeriodsPerYear(dates);
+  const dt = 1 / periodsPerYear;
+  const sleeveWeights = normalizeAssetWeights(strategy.assetWeights, paths.length);
+
+  const allocator = getAllocationStrategy(strategy.allocationMode);
+  let currentTargetAllocation = allocator.initialTarget(strategy);
+
+  const sumValues = (counts: number[], prices: number[]) => counts.reduce((sum, count, a) => sum + count * prices[a], 0);
+  // With whole units, positions round toward zero and the remainder stays in cash.
+  const toUnits = (value: number, price: number) => strategy.wholeUnits ? Math.trunc(value / price) : value / price;
+  // Only long positions are held in tax lots: the signed change in long units when a position moves by `units`.
+  // Opening or covering a short is left untaxed.
+  const longUnitChange = (before: number, units: number) => {
+    const after = before + units;
+    return before >= 0 && after >= 0 ? units : Math.max(0, after) - Math.max(0, before);
+  };
+  // Equity below `maintenanceMargin` of gross exposure is a breach; unleveraged portfolios never get there.
+  const breachesMargin = (cash: number, counts: number[], prices: number[]) => {
+    const gross = counts.reduce((sum, count, a) => sum + Math.abs(count * prices[a]), 0);
+    return gross > 0 && cash + sumValues(counts, prices) < strategy.maintenanceMargin * gross;
+  };
+  const initialPrices = paths.map(path => path[0]);
+
+  const strategyAssetCounts = paths.map((path, a) => toUnits(strategy.initialCapital * currentTargetAllocation * sleeveWeights[a], path[0]));
+  const initialAssetValue = strategy.wholeUnits ? sumValues(strategyAssetCounts, initialPrices) : strategy.initialCapital * currentTargetAllocation;
+  let strategyCash = strategy.wholeUnits ? strategy.initialCapital - initialAssetValue : strategy.initialCapital * (1 - currentTargetAllocation);
+
+  // HODL comparison: Fixed buy at start
+  const hodlAssetCounts = paths.map((path, a) => toUnits(strategy.initialCapital * strategy.targetAllocation * sleeveWeights[a], path[0]));
+  let hodlCash = strategy.wholeUnits
+    ? strategy.initialCapital - sumValues(hodlAssetCounts, initialPrices)
+    : strategy.initialCapital * (1 - strategy.targetAllocation);
+
+  const strategyLots = createLotBook(strategy, paths.length);
+  const hodlLots = createLotBook(strategy, paths.length);
+  strategyAssetCounts.forEach((units, a) => strategyLots.buy(a, 0, units, initialPrices[a]));
+  hodlAssetCounts.forEach((units, a) => hodlLots.buy(a, 0, units, initialPrices[a]));
+
+  const initialTargetWeights = sleeveWeights.map(w => w * currentTargetAllocation);
+  data.push({
+    day: 0,
+    date: dates[0],
+    regime: regimePath[0],
+    price: pricePath[0],
+    open: ohlc?.open[0],
+    high: ohlc?.high[0],
+    low: ohlc?.low[0],
+    prices: initialPrices,
+    weights: initialTargetWeights,
+    targetWeights: initialTargetWeights,
+    hodlValue: strategy.initialCapital,
+    strategyValue: strategy.initialCapital,
+    drawdown: 0,
+    hodlDrawdown: 0,
+    strategyCash: strategyCash,
+    strategyAssetValue: initialAssetValue,
+    allocation: currentTargetAllocation,
+    targetAllocation: currentTargetAllocation,
+    action: 'hold',
+    cashInterest: 0,
+    assetIncome: 0,
+    borrowCost: 0
+  });
+
+  const costs: ExecutionCosts = { commission: 0, fixedFees: 0, spread: 0, slippage: 0 };
+  const strategyCarry: CarryTotals = { cashInterest: 0, assetIncome: 0, borrowCost: 0 };
+  const hodlCarry: CarryTotals = { cashInterest: 0, assetIncome: 0, borrowCost: 0 };
+  // One step of carry on the holdings brought into the step, valued at its prices. Reinvested asset yield buys
+  // more of every asset pro rata, without fees, as new lots. Returns the new cash balance; `counts` is updated in place.
+  const accrueCarry = (day: number, cash: number, counts: number[], prices: number[], totals: CarryTotals, lots: ReturnType<typeof createLotBook>): CarryTotals & { cash: number } => {
+    const cashInterest = Math.max(0, cash) * strategy.cashYield * dt;
+    const borrowCost = Math.max(0, -cash) * strategy.borrowRate * dt;
+    const assetIncome = sumValues(counts, prices) * strategy.assetYield * dt;
+    totals.cashInterest += cashInterest;
+    totals.borrowCost += borrowCost;
+    totals.assetIncome += assetIncome;
+    const reinvest = strategy.assetYieldMode === 'reinvest';
+    if (reinvest) {
+      counts.forEach((count, a) => {
+        counts[a] = count * (1 + strategy.assetYield * dt);
+        lots.buy(a, day, counts[a] - count, prices[a]);
+      });
+    }
+    return { cash: cash + cashInterest - borrowCost + (reinvest ? 0 : assetIncome), cashInterest, assetIncome, borrowCost };
+  };
+
+  // The flow due on step t for a portfolio worth `equity`; withdrawals never take more than it holds.
+  const scheduledFlow = (t: number, equity: number): number => {
+    if (t % strategy.cashFlowFrequency !== 0 || equity <= 0) return 0;
+    const amount = strategy.cashFlowType === 'percent'
+      ? equity * strategy.cashFlowPercent
+      : strategy.cashFlowAmount * (strategy.inflationAdjusted ? Math.pow(1 + strategy.inflationRate, t * dt) : 1);
+    return Math.max(-equity, amount);
+  };
+
+  // Buy & hold invests contributions in its starting mix and funds withdrawals pro rata from cash and every asset.
+  const applyHodlFlow = (t: number, prices: number[], flow: number) => {
+    if (flow > 0) {
+      const bought = paths.map((_, a) => toUnits(flow * strategy.targetAllocation * sleeveWeights[a], prices[a]));
+      bought.forEach((units, a) => {
+        hodlAssetCounts[a] += units;
+        hodlLots.buy(a, t, units, prices[a]);
+      });
+      hodlCash += flow - sumValues(bought, prices);
+      return;
+    }
+    const share = -flow / (hodlCash + sumValues(hodlAssetCounts, prices));
+    const sold = hodlAssetCounts.map(count => strategy.wholeUnits ? Math.sign(count) * Math.min(Math.abs(count), Math.round(Math.abs(count) * share)) : count * share);
+    sold.forEach((units, a) => { hodlAssetCounts[a] -= units; });
+    hodlCash += flow + sumValues(sold, prices);
+    hodlCash -= hodlLots.sell(t, sold.map((units, a) => Math.max(0, -longUnitChange(hodlAssetCounts[a] + units, -units))), prices).tax;
+  };
+
+  // Buy & hold closes every position at the mid price when it breaches margin, then holds cash. Returns true if
+  // the close left it wiped out, in which case any debt beyond its equity is written off.
+  const liquidateHodl = (t: number, prices: number[]) => {
+    const tax = hodlLots.sell(t, hodlAssetCounts.map(count => Math.max(0, count)), prices).tax;
+    hodlCash += sumValues(hodlAssetCounts, prices) - tax;
+    hodlAssetCounts.fill(0);
+    hodlMargin.liquidations++;
+    if (hodlCash > 0) return false;
+    hodlCash = 0;
+    return true;
+  };
+
+  // Fills the orders (notional per asset at the mid price, positive buys) against strategy cash: execution costs,
+  // fill prices, lots and the tax on realized gains. Returns null when every order is too small to place.
+  // Forced orders (liquidations) skip the minimum trade size.
+  // Units and cash each trading step moved, for its P&L against not trading.
+  const tradeLog: { t: number, units: number[], cost: number }[] = [];
+  const executeTrades = (t: number, prices: number[], diffs: number[], forced = false) => {
+    // Orders are sized at the mid price; whole-unit orders round toward zero so a buy never overshoots its target.
+    const trades = diffs.map((diff, a) => {
+      if (Math.abs(diff) <= (forced ? 0 : strategy.minTradeNotional)) return 0;
+      if (!strategy.wholeUnits) return diff;
+      return (forced ? Math.round(diff / prices[a]) : Math.trunc(diff / prices[a])) * prices[a];
+    });
+    if (!trades.some(diff => diff !== 0)) return null;
+    const assetsBefore = sumValues(strategyAssetCounts, prices);
+    const equityBefore = strategyCash + assetsBefore;
+    const allocationBefore = equityBefore > 0 ? assetsBefore / equityBefore : 0;
+
+    const netTrade = trades.reduce((a, b) => a + b, 0);
+    const traded = trades.reduce((sum, diff) => sum + Math.abs(diff), 0);
+    // Buys fill above the mid price and sells below it, by half the spread plus size-dependent slippage.
+    const slippageRates = trades.map(diff => strategy.dailyLiquidity > 0 ? strategy.slippageImpact * Math.abs(diff) / strategy.dailyLiquidity : 0);
+    const commission = traded * strategy.transactionFeeRate;
+    const fixedFees = trades.filter(diff => diff !== 0).length * strategy.fixedFee;
+    const spreadCost = traded * strategy.spread / 2;
+    const slippageCost = trades.reduce((sum, diff, a) => sum + Math.abs(diff) * slippageRates[a], 0);
+    const fee = commission + fixedFees + spreadCost + slippageCost;
+    costs.commission += commission;
+    costs.fixedFees += fixedFees;
+    costs.spread += spreadCost;
+    costs.slippage += slippageCost;
+    totalTraded += traded;
+    totalFees += fee;
+    strategyCash -= (netTrade + fee);
+    const fills = trades.map((diff, a) => diff === 0 ? null : prices[a] * (1 + Math.sign(diff) * (strategy.spread / 2 + slippageRates[a])));
+    const unitChanges = trades.map((diff, a) => strategy.wholeUnits ? Math.round(diff / prices[a]) : diff / prices[a]);
+    const longChanges = unitChanges.map((units, a) => longUnitChange(strategyAssetCounts[a], units));
+    unitChanges.forEach((units, a) => {
+      strategyAssetCounts[a] += units;
+      strategyLots.buy(a, t, longChanges[a], fills[a] ?? prices[a]);
+    });
+    // Lots are bought and sold at their fill prices; commissions and fixed fees stay out of the cost basis.
+    const sale = strategyLots.sell(t, longChanges.map(units => Math.max(0, -units)), fills);
+    strategyCash -= sale.tax;
+    let logged = tradeLog[tradeLog.length - 1];
+    if (logged?.t !== t) {
+      logged = { t, units: unitChanges.map(() => 0), cost: 0 };
+      tradeLog.push(logged);
+    }
+    unitChanges.forEach((units, a) => { logged.units[a] += units; });
+    logged.cost += netTrade + fee;
+    return { netTrade, fee, fills, gain: sale.gain, tax: sale.tax, allocationBefore };
+  };
+
+  // Orders that steer a flow already sitting in cash toward the target weights: contributions buy only
+  // underweight assets and withdrawals sell only overweight ones, never trading more than the flow.
+  const flowOrders = (flow: number, prices: number[], targetWeights: number[]): number[] => {
+    const total = strategyCash + sumValues(strategyAssetCounts, prices);
+    const gaps = targetWeights.map((w, a) => total * w - strategyAssetCounts[a] * prices[a]);
+    const wanted = gaps.map(gap => flow > 0 ? Math.max(0, gap) : Math.min(0, gap));
+    const size = Math.abs(wanted.reduce((a, b) => a + b, 0));
+    const scale = size > Math.abs(flow) ? Math.abs(flow) / size : 1;
+    return wanted.map(gap => gap * scale);
+  };
+
+  // Equity at or below this counts as emptied by withdrawals; rounding can leave a few cents' dust.
+  const emptyEquity = strategy.initialCapital * 1e-9;
+
+  // Sells every position pro rata, as buy & hold does, for the part of a withdrawal that the cash held before it
+  // could not cover, so withdrawals never add borrowing. A withdrawal that takes all the equity closes every
+  // position and writes off the execution costs left over.
+  const fundWithdrawal = (t: number, prices: number[], cashBeforeFlow: number) => {
+    const shortfall = Math.min(0, cashBeforeFlow) - strategyCash;
+    const assetValue = sumValues(strategyAssetCounts, prices);
+    if (shortfall <= 0 || assetValue <= 0) return null;
+    const emptied = strategyCash + assetValue <= emptyEquity;
+    const share = emptied ? 1 : Math.min(1, shortfall / assetValue);
+    const fill = executeTrades(t, prices, strategyAssetCounts.map((count, a) => -count * prices[a] * share), true);
+    if (emptied) {
+      strategyAssetCounts.fill(0);
+      strategyCash = Math.max(0, strategyCash);
+    }
+    return fill;
+  };
+
+  // Time-weighted NAVs: each step's growth excludes that step's flow. They equal the values until the first flow,
+  // and stop moving once withdrawals have emptied the portfolio.
+  const chainNav = (nav: number, valueBeforeFlow: number, previousValue: number) =>
+    previousValue > emptyEquity ? nav * valueBeforeFlow / previousValue : nav;
+  let strategyNav = strategy.initialCapital;
+  let hodlNav = strategy.initialCapital;
+  const strategyNavs = [strategyNav];
+  const hodlNavs = [hodlNav];
+  const strategyFlows: CashFlow[] = [];
+  const hodlFlows: CashFlow[] = [];
+  const strategyMargin: MarginSummary = { liquidations: 0, wipedOutDay: null };
+  let lastRebalanceDay = -Infinity;
+  const hodlMargin: MarginSummary = { liquidations: 0, wipedOutDay: null };
+  let maxPeakHodl = strategy.initialCapital;
+  let maxPeakStrategy = strategy.initialCapital;
+  let maxDdHodl = 0;
+  let maxDdStrategy = 0;
+
+  for (let t = 1; t < pricePath.length; t++) {
+    const price = pricePath[t];
+    const prevPrice = pricePath[t - 1];
+    const prices = paths.map(path => path[t]);
+    const rsiVal = indicators.updateRSI(price, prevPrice);
+    const trendVal = indicators.updateTrend(barAt(t), barAt(t - 1));
+
+    hodlCash = accrueCarry(t, hodlCash, hodlAssetCounts, prices, hodlCarry, hodlLots).cash;
+    const carry = accrueCarry(t, strategyCash, strategyAssetCounts, prices, strategyCarry, strategyLots);
+    strategyCash = carry.cash;
+
+    // Dynamic Target Logic: the allocation strategy sees the step's prices and the equity carried into it
+    const signal = allocator.target(strategy, {
+      t,
+      path: pricePath,
+      rsi: rsiVal,
+      trend: trendVal,
+      equity: strategyCash + sumValues(strategyAssetCounts, prices),
+      initialCapital: strategy.initialCapital,
+      periodsPerYear
+    });
+    if (signal !== null) currentTargetAllocation = signal;
+    const targetWeights = sleeveWeights.map(w => w * currentTargetAllocation);
+
+    const hodlLiquidated = breachesMargin(hodlCash, hodlAssetCounts, prices);
+    if (hodlLiquidated && liquidateHodl(t, prices)) hodlMargin.wipedOutDay ??= t;
+
+    // A wiped-out portfolio is closed: it takes no further flows, so it cannot rebuild from contributions.
+    const hodlFlow = hodlMargin.wipedOutDay === null ? scheduledFlow(t, hodlCash + sumValues(hodlAssetCounts, prices)) : 0;
+    if (hodlFlow !== 0) {
+      applyHodlFlow(t, prices, hodlFlow);
+      hodlFlows.push({ time: t * dt, amount: hodlFlow });
+    }
+
+    // Metrics Update
+    const currentHodlValue = hodlCash + sumValues(hodlAssetCounts, prices);
+    hodlNav = hodlFlows.length > 0 ? chainNav(hodlNav, currentHodlValue - hodlFlow, data[t - 1].hodlValue) : currentHodlValue;
+    maxPeakHodl = Math.max(maxPeakHodl, hodlNav);
+    maxDdHodl = Math.max(maxDdHodl, (maxPeakHodl - hodlNav) / maxPeakHodl);
+
+    let action: StepData['action'] = 'hold';
+    let tradeAmount = 0;
+    let stepFee = 0;
+    let fillPrices: (number | null)[] | undefined;
+    let realizedGain: number | undefined;
+    let taxPaid: number | undefined;
+    let trigger: TradeTrigger | undefined;
+    let allocationBefore: number | undefined;
+    // Liquidation, flow and rebalance fills on the same step are reported together.
+    const record = (fill: ReturnType<typeof executeTrades>, firedBy: TradeTrigger) => {
+      if (!fill) return;
+      // Only policy rebalances count; trades made to place a flow or to pay for a withdrawal do not.
+      if (firedBy === 'band' || firedBy === 'calendar') rebalanceCount++;
+      trigger = firedBy;
+      allocationBefore ??= fill.allocationBefore;
+      tradeAmount += fill.netTrade;
+      stepFee += fill.fee;
+      fillPrices = fillPrices ? fillPrices.map((p, a) => fill.fills[a] ?? p) : fill.fills;
+      realizedGain = (realizedGain ?? 0) + fill.gain;
+      taxPaid = (taxPaid ?? 0) + fill.tax;
+      action = tradeAmount > 0 ? 'buy' : 'sell';
+    };
+
+    // A margin breach closes every strategy position; it trades again from the next step unless wiped out.
+    const liquidated = breachesMargin(strategyCash, strategyAssetCounts, prices);
+    if (liquidated) {
+      record(executeTrades(t, prices, strategyAssetCounts.map((count, a) => -count * prices[a]), true), 'liquidation');
+      strategyAssetCounts.fill(0);
+      strategyMargin.liquidations++;
+      if (strategyCash <= 0) {
+        strategyCash = 0;
+        strategyMargin.wipedOutDay ??= t;
+      }
+    }
+
+    const strategyFlow = strategyMargin.wipedOutDay === null ? scheduledFlow(t, strategyCash + sumValues(strategyAssetCounts, prices)) : 0;
+    if (strategyFlow !== 0) {
+      const cashBeforeFlow = strategyCash;
+      strategyCash += strategyFlow;
+      strategyFlows.push({ time: t * dt, amount: strategyFlow });
+      if (strategy.flowRebalancing) record(executeTrades(t, prices, flowOrders(strategyFlow, prices, targetWeights)), 'flow');
+      if (strategyFlow < 0) record(fundWithdrawal(t, prices, cashBeforeFlow), 'flow');
+    }
+
+    let currentAssetValue = sumValues(strategyAssetCounts, prices);
+    let currentTotalStrategyValue = strategyCash + currentAssetValue;
+    // A wiped-out portfolio has no equity to take weights of.
+    const weightOf = (value: number) => currentTotalStrategyValue > 0 ? value / currentTotalStrategyValue : 0;
+    let currentAllocation = weightOf(currentAssetValue);
+    let weights = strategyAssetCounts.map((count, a) => weightOf(count * prices[a]));
+
+    // Rebalancing Logic: the bands apply to every asset's weight
+    const bands = targetWeights.map(w => rebalanceBands(strategy, w));
+    const outsideBand = weights.some((w, a) => w - targetWeights[a] > bands[a].upper || targetWeights[a] - w > bands[a].lower);
+    const onSchedule = t % strategy.rebalanceFrequency === 0;
+    let shouldRebalance = false;
+    if (strategy.rebalanceType === 'threshold') {
+      shouldRebalance = outsideBand;
+    } else if (strategy.rebalanceType === 'time') {
+      shouldRebalance = onSchedule;
+    } else {
+      shouldRebalance = onSchedule && outsideBand;
+    }
+    const coolingDown = t - lastRebalanceDay < strategy.minDaysBetweenRebalances;
+
+    if (shouldRebalance && !coolingDown && !liquidated && strategyMargin.wipedOutDay === null) {
+      const desiredWeights = weights.map((w, a) => {
+        if (strategy.rebalanceTo === 'bandEdge') return Math.min(targetWeights[a] + bands[a].upper, Math.max(targetWeights[a] - bands[a].lower, w));
+        if (strategy.rebalanceTo === 'partial') return w + strategy.partialRebalanceFraction * (targetWeights[a] - w);
+        return targetWeights[a];
+      });
+      const fill = executeTrades(t, prices, desiredWeights.map((w, a) => currentTotalStrategyValue * w - strategyAssetCounts[a] * prices[a]));
+      if (fill) {
+        // A calendar check that found a weight outside its band counts as a band breach.
+        record(fill, strategy.rebalanceType === 'time' ? 'calendar' : 'band');
+        lastRebalanceDay = t;
+        currentAssetValue = sumValues(strategyAssetCounts, prices);
+        currentTotalStrategyValue = strategyCash + currentAssetValue;
+        currentAllocation = weightOf(currentAssetValue);
+        weights = strategyAssetCounts.map((count, a) => weightOf(count * prices[a]));
+      }
+    }
+
+    strategyNav = strategyFlows.length > 0 ? chainNav(strategyNav, currentTotalStrategyValue - strategyFlow, data[t - 1].strategyValue) : currentTotalStrategyValue;
+    maxPeakStrategy = Math.max(maxPeakStrategy, strategyNav);
+    maxDdStrategy = Math.max(maxDdStrategy, (maxPeakStrategy - strategyNav) / maxPeakStrategy);
+    strategyNavs.push(strategyNav);
+    hodlNavs.push(hodlNav);
+
+    data.push({
+      day: t,
+      date: dates[t],
+      regime: regimePath[t],
+      price,
+      open: ohlc?.open[t],
+      high: ohlc?.high[t],
+      low: ohlc?.low[t],
+      prices,
+      weights,
+      targetWeights,
+      hodlValue: currentHodlValue,
+      strategyValue: currentTotalStrategyValue,
+      drawdown: (maxPeakStrategy - strategyNav) / maxPeakStrategy,
+      hodlDrawdown: (maxPeakHodl - hodlNav) / maxPeakHodl,
+      strategyCash,
+      strategyAssetValue: currentAssetValue,
+      allocation: currentAllocation,
+      targetAllocation: currentTargetAllocation,
+      rsi: rsiVal ?? undefined,
+      adx: trendVal?.adx ?? undefined,
+      plusDI: trendVal?.plusDI ?? undefined,
+      minusDI: trendVal?.minusDI ?? undefined,
+      sma: trendVal?.sma ?? undefined,
+      action: liquidated ? 'liquidate' : action,
+      trigger,
+      allocationBefore,
+      tradeAmount,
+      fee: stepFee,
+      fillPrices,
+      realizedGain,
+      taxPaid,
+      cashFlow: strategyFlow !== 0 ? strategyFlow : undefined,
+      hodlCashFlow: hodlFlow !== 0 ? hodlFlow : undefined,
+      hodlLiquidated: hodlLiquidated || undefined,
+      cashInterest: carry.cashInterest,
+      assetIncome: carry.assetIncome,
+      borrowCost: carry.borrowCost
+    });
+  }
+
+  tradeLog.forEach((trade, i) => {
+    const until = tradeLog[i + 1]?.t ?? data.length - 1;
+    data[trade.t].tradePnl = trade.units.reduce((sum, units, a) => sum + units * paths[a][until], 0) - trade.cost;
+  });
+
+  const lastStep = data[data.length - 1];
+  const finalTime = lastStep.day * dt;
+  const summarizeFlows = (flows: CashFlow[], finalValue: number, nav: number): CashFlowSummary => ({
+    contributions: flows.reduce((sum, flow) => sum + Math.max(0, flow.amount), 0),
+    withdrawals: flows.reduce((sum, flow) => sum + Math.max(0, -flow.amount), 0),
+    timeWeightedReturn: (nav - strategy.initialCapital) / strategy.initialCapital,
+    // From the investor's side: money paid in is negative, money taken out and the final value are positive.
+    moneyWeightedReturn: moneyWeightedReturn([
+      { time: 0, amount: -strategy.initialCapital },
+      ...flows.map(flow => ({ time: flow.time, amount: -flow.amount })),
+      { time: finalTime, amount: finalValue }
+    ])
+  });
+  const netInvested = (flows: CashFlow[]) => flows.reduce((sum, flow) => sum + flow.amount, strategy.initialCapital);
+
+  return {
+    seed: market.seed,
+    data,
+    totalRebalances: rebalanceCount,
+    totalFees,
+    hodlReturn: (hodlNav - strategy.initialCapital) / strategy.initialCapital,
+    strategyReturn: (strategyNav - strategy.initialCapital) / strategy.initialCapital,
+    maxDrawdownHodl: maxDdHodl,
+    maxDrawdownStrategy: maxDdStrategy,
+    metrics: {
+      strategy: computeMetrics(strategyNavs, hodlNavs, totalTraded, totalFees, strategy.riskFreeRate, periodsPerYear, data.map(step => step.strategyValue)),
+      hodl: computeMetrics(hodlNavs, hodlNavs, 0, 0, strategy.riskFreeRate, periodsPerYear)
+    },
+    costs,
+    tax: {
+      strategy: strategyLots.summarize(lastStep.day, lastStep.prices, lastStep.strategyValue, netInvested(strategyFlows)),
+      hodl: hodlLots.summarize(lastStep.day, lastStep.prices, lastStep.hodlValue, netInvested(hodlFlows))
+    },
+    carry: { strategy: strategyCarry, hodl: hodlCarry },
+    cashFlows: {
+      strategy: summarizeFlows(strategyFlows, lastStep.strategyValue, strategyNav),
+      hodl: summarizeFlows(hodlFlows, lastStep.hodlValue, hodlNav)
+    },
+    margin: { strategy: strategyMargin, hodl: hodlMargin },
+    regimeStats: regimePath.length > 0
+      ? computeRegimeStats(data, [market, ...market.extraAssets][regimeModelIndex(market)]?.regimes ?? [])
+      : undefined
+  };
+};
+
+// --- 4. Performance Metrics ---
+
+// Imported data may be weekly or have gaps, so its sampling rate comes from the dates; generated paths are daily.
+const inferPeriodsPerYear = (dates: string[]): number => {
+  const first = dates[0];
+  const last = dates[dates.length - 1];
+  if (!first || !last) return TRADING_DAYS_PER_YEAR;
+  const years = (Date.parse(last) - Date.parse(first)) / (365.25 * 24 * 60 * 60 * 1000);
+  return years > 0 ? (dates.length - 1) / years : TRADING_DAYS_PER_YEAR;
+};
+
+const mean = (values: number[]): number => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+const stdDev = (values: number[]): number => {
+  if (values.length < 2) return 0;
+  const mu = mean(values);
+  return Math.sqrt(values.reduce((a, v) => a + (v - mu) ** 2, 0) / (values.length - 1));
+};
+
+const periodReturns = (values: number[]): number[] => values.slice(1).map((v, i) => values[i] > 0 ? v / values[i] - 1 : 0);
+
+const ratio = (numerator: number, denominator: number): number | null => denominator > 1e-12 ? numerator / denominator : null;
+
+const drawdownStats = (values: number[]) => {
+  let peak = values[0];
+  let peakIndex = 0;
+  let maxDrawdown = 0;
+  let troughPeak = 0;
+  let troughIndex = 0;
+  let longest = 0;
+  for (let i = 1; i < values.length; i++) {
+    if (values[i] >= peak) {
+      peak = values[i];
+      peakIndex = i;
+    } else {
+      longest = Math.max(longest, i - peakIndex);
+      const drawdown = (peak - values[i]) / peak;
+      if (drawdown > maxDrawdown) {
+        maxDrawdown = drawdown;
+        troughPeak = peak;
+        troughIndex = i;
+      }
+    }
+  }
+  const recoveryOffset = maxDrawdown > 0 ? values.slice(troughIndex).findIndex(v => v >= troughPeak) : 0;
+  return { maxDrawdown, longestDrawdownDays: longest, recoveryDays: recoveryOffset === -1 ? null : recoveryOffset };
+};
+
+// `tradedNotional` and `fees` are totals over the run; `benchmark` is the equity curve the tracking error is measured against.
+// `equity`, the dollar value turnover and fee drag are measured against, defaults to `values`; it differs once cash flows
+// make `values` a time-weighted index.
+export const computeMetrics = (
+  values: number[],
+  benchmark: number[],
+  tradedNotional: number,
+  fees: number,
+  riskFreeRate: number,
+  periodsPerYear: number,
+  equity: number[] = values
+): PerformanceMetrics => {
+  const returns = periodReturns(values);
+  const years = returns.length / periodsPerYear;
+  const growth = values[values.length - 1] / values[0];
+  const cagr = years > 0 && growth > 0 ? Math.pow(growth, 1 / years) - 1 : growth - 1;
+  const annualVolatility = stdDev(returns) * Math.sqrt(periodsPerYear);
+  const periodRiskFree = riskFreeRate / periodsPerYear;
+  const excess = mean(returns) - periodRiskFree;
+  const downside = Math.sqrt(mean(returns.map(r => Math.min(0, r - periodRiskFree) ** 2)));
+  const { maxDrawdown, longestDrawdownDays, recoveryDays } = drawdownStats(values);
+  const averageEquity = mean(equity);
+  const benchmarkReturns = periodReturns(benchmark);
+  const active = returns.map((r, i) => r - (benchmarkReturns[i] ?? 0));
+  const trackingError = stdDev(active) * Math.sqrt(periodsPerYear);
+  return {
+    cagr,
+    annualVolatility,
+    sharpe: ratio(excess * Math.sqrt(periodsPerYear), stdDev(returns)),
+    sortino: ratio(excess * Math.sqrt(periodsPerYear), downside),
+    calmar: ratio(cagr, maxDrawdown),
+    longestDrawdownDays,
+    recoveryDays,
+    turnover: years > 0 && averageEquity > 0 ? tradedNotional / averageEquity / years : 0,
+    feeDragBps: years > 0 && averageEquity > 0 ? fees / averageEquity / years * 10000 : 0,
+    trackingError,
+    informationRatio: ratio(mean(active) * periodsPerYear, trackingError)
+  };
+};
+
+// Annual internal rate of return of dated flows, found by bisection. Null when the flows do not change sign over
+// the searched range of rates (-99.99% to 1,000,000%).
+const moneyWeightedReturn = (flows: CashFlow[]): number | null => {
+  const presentValue = (rate: number) => flows.reduce((sum, flow) => sum + flow.amount / Math.pow(1 + rate, flow.time), 0);
+  let low = -0.9999;
+  let high = 10000;
+  const lowValue = presentValue(low);
+  if (!Number.isFinite(lowValue) || Math.sign(lowValue) === Math.sign(presentValue(high))) return null;
+  for (let i = 0; i < 200 && high - low > 1e-10; i++) {
+    const mid = (low + high) / 2;
+    if (Math.sign(presentValue(mid)) === Math.sign(lowValue)) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+};
+
+// Day t's move belongs to the regime recorded on step t. Regimes never visited are left out.
+export const computeRegimeStats = (data: StepData[], regimes: MarketRegime[]): RegimeStats[] => {
+  const growth = regimes.map(() => ({ days: 0, strategy: 1, hodl: 1 }));
+  for (let t = 1; t < data.length; t++) {
+    const g = growth[data[t].regime ?? -1];
+    if (!g) continue;
+    g.days++;
+    g.strategy *= data[t].strategyValue / data[t - 1].strategyValue;
+    g.hodl *= data[t].hodlValue / data[t - 1].hodlValue;
+  }
+  return growth.flatMap((g, regime) => g.days === 0 ? [] : [{
+    regime,
+    name: regimes[regime].name,
+    days: g.days,
+    strategyReturn: g.strategy - 1,
+    hodlReturn: g.hodl - 1,
+    alpha: g.strategy - g.hodl
+  }]);
+};
+
+// A step's return with its cash flow taken out, chained the same way as the NAVs.
+const flowAdjustedReturn = (value: number, flow: number | undefined, previousValue: number): number =>
+  previousValue > 0 ? (value - (flow ?? 0)) / previousValue - 1 : 0;
+
+// Return, annualized volatility and alpha over the trailing `window` steps, for every step; null until a full
+// window exists.
+export const computeRollingMetrics = (data: StepData[], window: number): (RollingMetrics | null)[] => {
+  const length = Math.max(2, Math.round(window));
+  const periodsPerYear = inferPeriodsPerYear(data.map(step => step.date ?? ''));
+  const strategyReturns = data.map((step, t) => t === 0 ? 0 : flowAdjustedReturn(step.strategyValue, step.cashFlow, data[t - 1].strategyValue));
+  const hodlReturns = data.map((step, t) => t === 0 ? 0 : flowAdjustedReturn(step.hodlValue, step.hodlCashFlow, data[t - 1].hodlValue));
+  return data.map((_, t) => {
+    if (t < length) return null;
+    const strategyWindow = strategyReturns.slice(t - length + 1, t + 1);
+    const hodlWindow = hodlReturns.slice(t - length + 1, t + 1);
+    const strategyReturn = strategyWindow.reduce((g, r) => g * (1 + r), 1) - 1;
+    const hodlReturn = hodlWindow.reduce((g, r) => g * (1 + r), 1) - 1;
+    return {
+      strategyReturn,
+      hodlReturn,
+      alpha: strategyReturn - hodlReturn,
+      strategyVolatility: stdDev(strategyWindow) * Math.sqrt(periodsPerYear),
+      hodlVolatility: stdDev(hodlWindow) * Math.sqrt(periodsPerYear)
+    };
+  });
+};
+
+// Running power sums of daily log returns, so a whole Monte Carlo batch can be pooled without keeping every return.
+const createMomentAccumulator = () => {
+  let n = 0, s1 = 0, s2 = 0, s3 = 0, s4 = 0;
+  return {
+    addPath: (prices: number[]) => {
+      for (let t = 1; t < prices.length; t++) {
+        const r = Math.log(prices[t] / prices[t - 1]);
+        n++;
+        s1 += r;
+        s2 += r * r;
+        s3 += r * r * r;
+        s4 += r * r * r * r;
+      }
+    },
+    result: (): ReturnMoments => {
+      const mu = n > 0 ? s1 / n : 0;
+      const m2 = n > 0 ? s2 / n - mu * mu : 0;
+      const m3 = n > 0 ? s3 / n - 3 * mu * s2 / n + 2 * mu ** 3 : 0;
+      const m4 = n > 0 ? s4 / n - 4 * mu * s3 / n + 6 * mu * mu * s2 / n - 3 * mu ** 4 : 0;
+      return {
+        count: n,
+        mean: mu * TRADING_DAYS_PER_YEAR,
+        volatility: n > 1 ? Math.sqrt(Math.max(0, m2) * n / (n - 1) * TRADING_DAYS_PER_YEAR) : 0,
+        skew: m2 > 1e-18 ? m3 / Math.pow(m2, 1.5) : 0,
+        kurtosis: m2 > 1e-18 ? m4 / (m2 * m2) - 3 : 0
+      };
+    }
+  };
+};
+
+// Moments of the daily log returns along a price path; excess kurtosis, so a normal distribution scores 0.
+export const priceMoments = (prices: number[]): ReturnMoments => {
+  const acc = createMomentAccumulator();
+  acc.addPath(prices);
+  return acc.result();
+};
+
+// The source's moments, computed on a price path rebuilt from its returns.
+export const bootstrapSourceMoments = (model: AssetModel): ReturnMoments => {
+  const prices = [1];
+  model.bootstrapReturns.forEach(r => prices.push(prices[prices.length - 1] * Math.exp(r)));
+  return priceMoments(prices);
+};
+
+// --- 5. Monte Carlo ---
+
+// Linear interpolation between closest ranks; expects `sorted` in ascending order.
+export const percentile = (sorted: ArrayLike<number>, p: number): number => {
+  if (sorted.length === 0) return 0;
+  const rank = (sorted.length - 1) * p;
+  const lo = Math.floor(rank);
+  const hi = Math.ceil(rank);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (rank - lo);
+};
+
+const summarize = (values: Float64Array): DistributionSummary => {
+  const sorted = values.slice().sort();
+  const mean = sorted.reduce((a, b) => a + b, 0) / (sorted.length || 1);
+  return {
+    mean,
+    p5: percentile(sorted, 0.05),
+    p25: percentile(sorted, 0.25),
+    p50: percentile(sorted, 0.5),
+    p75: percentile(sorted, 0.75),
+    p95: percentile(sorted, 0.95)
+  };
+};
+
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+const buildHistogram = (values: Float64Array, binCount: number): HistogramBin[] => {
+  if (values.length === 0) return [];
+  let min = Infinity, max = -Infinity;
+  for (const v of values) {
+    min = Math.min(min, v);
+    max = Math.max(max, v);
+  }
+  const width = (max - min) / binCount || 1;
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, i) => ({ start: min + i * width, end: min + (i + 1) * width, count: 0 }));
+  for (const v of values) {
+    bins[Math.min(binCount - 1, Math.floor((v - min) / width))].count++;
+  }
+  return bins;
+};
+
+// Path i of any batch run from the same market seed is the same path, so sweeps and Monte Carlo see identical markets.
+const createPathSeeder = (market: MarketConfig): () => MarketConfig => {
+  const seedRng = createRng(market.seed);
+  return () => ({ ...market, seed: Math.floor(seedRng() * 4294967296) >>> 0 });
+};
+
+// Each path gets its own seed drawn from the market seed, so a Monte Carlo batch is as reproducible as a single run.
+// Work is done in chunks; between chunks control is handed back to the event loop so progress can be reported
+// and a cancellation can land. Resolves to null when cancelled.
+export const runMonteCarlo = async (
+  market: MarketConfig,
+  strategy: StrategyConfig,
+  runs: number,
+  control: RunControl = {},
+  attribute = false
+): Promise<MonteCarloResult | null> => {
+  const chunkSize = control.chunkSize ?? 50;
+  const nextPathConfig = createPathSeeder(market);
+  const steps = scenarioDays(market) + 1;
+  const alpha = new Float64Array(runs);
+  const ddStrategy = new Float64Array(runs);
+  const ddHodl = new Float64Array(runs);
+  const fees = new Float64Array(runs);
+  const trades = new Float64Array(runs);
+  const strategyEquity = Array.from({ length: steps }, () => new Float64Array(runs));
+  const hodlEquity = Array.from({ length: steps }, () => new Float64Array(runs));
+  const bootstrapIndex = bootstrapModelIndex(market);
+  const generatedMoments = createMomentAccumulator();
+  const attributions: AlphaAttribution[] = [];
+  let wins = 0;
+
+  for (let i = 0; i < runs; i++) {
+    if (i > 0 && i % chunkSize === 0) {
+      control.onProgress?.(i / runs);
+      await yieldToEventLoop();
+      if (control.isCancelled?.()) return null;
+    }
+    const pathConfig = nextPathConfig();
+    const { prices: pricePaths, ohlc } = generateMarketPaths(pathConfig);
+    const [pricePath, ...extraPaths] = pricePaths;
+    if (bootstrapIndex !== -1) generatedMoments.addPath(pricePaths[bootstrapIndex]);
+    const result = runSimulation(pathConfig, strategy, pricePath, extraPaths, [], [], ohlc?.[0] ?? null);
+    if (attribute) attributions.push(computeAlphaAttribution({ market: pathConfig, pricePaths, ohlc: ohlc?.[0] ?? null }, strategy, result));
+    alpha[i] = result.strategyReturn - result.hodlReturn;
+    ddStrategy[i] = result.maxDrawdownStrategy;
+    ddHodl[i] = result.maxDrawdownHodl;
+    fees[i] = result.totalFees;
+    trades[i] = result.totalRebalances;
+    if (alpha[i] > 0) wins++;
+    result.data.forEach((step, t) => {
+      strategyEquity[t][i] = step.strategyValue;
+      hodlEquity[t][i] = step.hodlValue;
+    });
+  }
+  control.onProgress?.(1);
+
+  const equityBands: EquityBand[] = strategyEquity.map((values, day) => {
+    const sorted = values.sort();
+    return {
+      day,
+      outer: [percentile(sorted, 0.05), percentile(sorted, 0.95)],
+      inner: [percentile(sorted, 0.25), percentile(sorted, 0.75)],
+      median: percentile(sorted, 0.5),
+      hodlMedian: percentile(hodlEquity[day].sort(), 0.5)
+    };
+  });
+
+  return {
+    seed: market.seed,
+    runs,
+    winRate: runs > 0 ? wins / runs : 0,
+    alpha: summarize(alpha),
+    maxDrawdownStrategy: summarize(ddStrategy),
+    maxDrawdownHodl: summarize(ddHodl),
+    fees: summarize(fees),
+    trades: summarize(trades),
+    alphaHistogram: buildHistogram(alpha, 30),
+    equityBands,
+    bootstrapMoments: bootstrapIndex !== -1
+      ? { source: bootstrapSourceMoments([market, ...market.extraAssets][bootstrapIndex]), generated: generatedMoments.result() }
+      : null,
+    attribution: averageAttribution(attributions)
+  };
+};
+
+// --- 6. Parameter Sweep ---
+
+const MAX_SWEEP_VALUES = 50;
+const MAX_SWEEP_SIMULATIONS = 100000;
+const INTEGER_SWEEP_FIELDS: SweepField[] = ['rebalanceFrequency', 'indicatorPeriod'];
+
+// Inclusive grid from `from` to `to`. Integer fields are rounded and de-duplicated, so a fractional step never
+// produces two cells with the same parameters.
+export const sweepValues = (axis: SweepAxis): number[] => {
+  const step = Math.abs(axis.step);
+  const count = step > 0 ? Math.floor((axis.to - axis.from) / step + 1e-9) + 1 : 1;
+  if (count > MAX_SWEEP_VALUES) {
+    throw new Error(`Sweep over ${axis.field} has ${count} values; the limit is ${MAX_SWEEP_VALUES} per axis`);
+  }
+  const isInteger = INTEGER_SWEEP_FIELDS.includes(axis.field);
+  const values = Array.from({ length: Math.max(1, count) }, (_, i) => {
+    const value = axis.from + i * step;
+    return isInteger ? Math.round(value) : Math.round(value * 1e10) / 1e10;
+  });
+  return [...new Set(values)];
+};
+
+export interface SweepPath {
+  market: MarketConfig;
+  pricePaths: number[][];
+  dates?: string[];
+  // The first asset's intraday bars, when the path has them.
+  ohlc?: OhlcBars | null;
+}
+
+// Runs the strategy once per grid cell and path. `current` is the path used in 'current' mode; 'seeded' mode
+// averages over the same seeded paths a Monte Carlo batch would use. Sharpe is averaged over paths where it exists.
+// Resolves to null when cancelled.
+export const runSweep = async (
+  strategy: StrategyConfig,
+  config: SweepConfig,
+  current: SweepPath,
+  control: RunControl = {}
+): Promise<SweepResult | null> => {
+  const chunkSize = control.chunkSize ?? 50;
+  const xValues = sweepValues(config.x);
+  const yValues = config.y ? sweepValues(config.y) : [];
+  let paths: SweepPath[] = [current];
+  if (config.pathMode === 'seeded') {
+    const nextPathConfig = createPathSeeder(current.market);
+    paths = Array.from({ length: Math.max(1, config.paths) }, () => {
+      const market = nextPathConfig();
+      const { prices, ohlc } = generateMarketPaths(market);
+      return { market, pricePaths: prices, ohlc: ohlc?.[0] ?? null };
+    });
+  }
+  const rows: (number | null)[] = config.y ? yValues : [null];
+  const total = rows.length * xValues.length * paths.length;
+  if (total > MAX_SWEEP_SIMULATIONS) {
+    throw new Error(`Sweep needs ${total.toLocaleString()} simulations; the limit is ${MAX_SWEEP_SIMULATIONS.toLocaleString()}`);
+  }
+
+  const cells: SweepCell[] = [];
+  let done = 0;
+  for (const y of rows) {
+    for (const x of xValues) {
+      const cellStrategy = { ...strategy, [config.x.field]: x };
+      if (config.y && y !== null) cellStrategy[config.y.field] = y;
+      let alpha = 0, maxDrawdown = 0, trades = 0, sharpeSum = 0, sharpeCount = 0;
+      for (const path of paths) {
+        if (done > 0 && done % chunkSize === 0) {
+          control.onProgress?.(done / total);
+          await yieldToEventLoop();
+          if (control.isCancelled?.()) return null;
+        }
+        const [pricePath, ...extraPaths] = path.pricePaths;
+        const result = runSimulation(path.market, cellStrategy, pricePath, extraPaths, path.dates, [], path.ohlc ?? null);
+        alpha += result.strategyReturn - result.hodlReturn;
+        maxDrawdown += result.maxDrawdownStrategy;
+        trades += result.totalRebalances;
+        if (result.metrics.strategy.sharpe !== null) {
+          sharpeSum += result.metrics.strategy.sharpe;
+          sharpeCount++;
+        }
+        done++;
+      }
+      cells.push({
+        x,
+        y,
+        alpha: alpha / paths.length,
+        sharpe: sharpeCount > 0 ? sharpeSum / sharpeCount : null,
+        maxDrawdown: maxDrawdown / paths.length,
+        trades: trades / paths.length
+      });
+    }
+  }
+  control.onProgress?.(1);
+
+  return { config, xValues, yValues, cells };
+};
+
+// --- 7. Alpha Attribution ---
+
+// Annual growth a continuously rebalanced mix earns over the weighted log growth of its holdings when every asset
+// is a GBM: half of (sum of w_i x sigma_i^2 minus the portfolio variance). Null for any other model.
+export const constantMixPremium = (market: MarketConfig, weights: number[]): number | null => {
+  const models: AssetModel[] = [market, ...market.extraAssets];
+  if (isScenarioComposed(market) || models.some(model => model.type !== 'GBM')) return null;
+  const correlation = normalizeCorrelation(market.correlation, models.length);
+  let variance = 0;
+  weights.forEach((wi, i) => weights.forEach((wj, j) => {
+    variance += wi * wj * models[i].volatility * models[j].volatility * correlation[i][j];
+  }));
+  return (weights.reduce((sum, w, i) => sum + w * models[i].volatility ** 2, 0) - variance) / 2;
+};
+
+// Re-runs the path without execution costs, then (for dynamic modes) as a cost-free fixed mix at the strategy's
+// average target weight, and splits the alpha of `result` between the differences. Imported paths get no
+// theoretical premium since their market config did not generate them.
+export const computeAlphaAttribution = (path: SweepPath, strategy: StrategyConfig, result: SimulationResult): AlphaAttribution => {
+  const [pricePath, ...extraPaths] = path.pricePaths;
+  const run = (config: StrategyConfig) => runSimulation(path.market, config, pricePath, extraPaths, path.dates, [], path.ohlc ?? null);
+  const costFree: StrategyConfig = { ...strategy, transactionFeeRate: 0, spread: 0, slippageImpact: 0, fixedFee: 0 };
+  const isFixed = strategy.allocationMode === 'fixed';
+  const dynamic = run(costFree);
+  const averageTarget = isFixed ? strategy.targetAllocation : mean(dynamic.data.map(step => step.targetAllocation));
+  const fixedMix = isFixed ? dynamic : run({ ...costFree, allocationMode: 'fixed', targetAllocation: averageTarget });
+
+  const exposure = fixedMix.hodlReturn - result.hodlReturn;
+  const rebalancingPremium = fixedMix.strategyReturn - fixedMix.hodlReturn;
+  const timing = dynamic.strategyReturn - fixedMix.strategyReturn;
+  const costDrag = -result.totalFees / strategy.initialCapital;
+  const alpha = result.strategyReturn - result.hodlReturn;
+  const periodsPerYear = inferPeriodsPerYear(path.dates ?? []);
+  const years = (pricePath.length - 1) / periodsPerYear;
+  const weights = normalizeAssetWeights(strategy.assetWeights, path.pricePaths.length).map(w => w * averageTarget);
+  // The theory's benchmark: each holding's own annual log growth at the mix weights. Assets earn their price
+  // change plus the asset yield, and the cash sleeve its interest (or, when borrowed, the borrow rate).
+  const carryGrowth = (rate: number) => Math.log(1 + rate / periodsPerYear) * periodsPerYear;
+  const cashWeight = 1 - weights.reduce((a, b) => a + b, 0);
+  const holdingsGrowth = weights.reduce((sum, w, a) => {
+    const prices = path.pricePaths[a];
+    return sum + w * (Math.log(prices[prices.length - 1] / prices[0]) / years + carryGrowth(strategy.assetYield));
+  }, cashWeight * carryGrowth(cashWeight >= 0 ? strategy.cashYield : strategy.borrowRate));
+  const mixGrowth = 1 + fixedMix.strategyReturn;
+  return {
+    hodlReturn: result.hodlReturn,
+    exposure,
+    rebalancingPremium,
+    timing,
+    costDrag,
+    other: alpha - exposure - rebalancingPremium - timing - costDrag,
+    strategyReturn: result.strategyReturn,
+    averageTarget,
+    realizedPremiumRate: years > 0 && mixGrowth > 0 && Number.isFinite(holdingsGrowth) ? Math.log(mixGrowth) / years - holdingsGrowth : null,
+    theoreticalPremiumRate: path.dates ? null : constantMixPremium(path.market, weights)
+  };
+};
+
+// Mean of each part over many paths; rates average over the paths that have one.
+const averageAttribution = (attributions: AlphaAttribution[]): AlphaAttribution | null => {
+  if (attributions.length === 0) return null;
+  const meanOf = (pick: (a: AlphaAttribution) => number) => mean(attributions.map(pick));
+  const rateOf = (pick: (a: AlphaAttribution) => number | null) => {
+    const rates = attributions.map(pick).filter((rate): rate is number => rate !== null);
+    return rates.length > 0 ? mean(rates) : null;
+  };
+  return {
+    hodlReturn: meanOf(a => a.hodlReturn),
+    exposure: meanOf(a => a.exposure),
+    rebalancingPremium: meanOf(a => a.rebalancingPremium),
+    timing: meanOf(a => a.timing),
+    costDrag: meanOf(a => a.costDrag),
+    other: meanOf(a => a.other),
+    strategyReturn: meanOf(a => a.strategyReturn),
+    averageTarget: meanOf(a => a.averageTarget),
+    realizedPremiumRate: rateOf(a => a.realizedPremiumRate),
+    theoreticalPremiumRate: rateOf(a => a.theoreticalPremiumRate)
+  };
+};
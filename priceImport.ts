@@ -0,0 +1,224 @@
+import type { PriceBar, ImportedSeries, SeriesSummary, OhlcBars } from './types';
+
+// --- 1. Parsing ---
+
+const DATE_KEYS = ['date', 'time', 'timestamp', 'datetime', 'day'];
+const CLOSE_KEYS = ['adj close', 'adj_close', 'adjclose', 'adjusted close', 'close', 'price', 'value'];
+
+interface RawRow {
+  date: unknown;
+  open?: unknown;
+  high?: unknown;
+  low?: unknown;
+  close: unknown;
+  // The unadjusted close the open, high and low were quoted against, when `close` is an adjusted one.
+  rawClose?: unknown;
+}
+
+const findKey = (keys: string[], candidates: string[]): number => {
+  const normalized = keys.map(k => k.trim().toLowerCase());
+  for (const candidate of candidates) {
+    const index = normalized.indexOf(candidate);
+    if (index !== -1) return index;
+  }
+  return -1;
+};
+
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    else if (char === delimiter && !quoted) {
+      cells.push(current);
+      current = '';
+    } else current += char;
+  }
+  cells.push(current);
+  return cells.map(c => c.trim());
+};
+
+const parseCsv = (text: string): RawRow[] => {
+  const lines = text.split(/\r?\n/).filter(l => l.trim() !== '');
+  if (lines.length < 2) throw new Error('CSV needs a header row and at least two data rows');
+  const delimiter = [',', ';', '\t'].reduce((best, d) => lines[0].split(d).length > lines[0].split(best).length ? d : best, ',');
+  const header = splitCsvLine(lines[0], delimiter);
+  const dateCol = findKey(header, DATE_KEYS);
+  const closeCol = findKey(header, CLOSE_KEYS);
+  if (dateCol === -1) throw new Error(`No date column found (expected one of: ${DATE_KEYS.join(', ')})`);
+  if (closeCol === -1) throw new Error(`No close column found (expected one of: ${CLOSE_KEYS.join(', ')})`);
+  const openCol = findKey(header, ['open']);
+  const highCol = findKey(header, ['high']);
+  const lowCol = findKey(header, ['low']);
+  const rawCloseCol = findKey(header, ['close']);
+  return lines.slice(1).map(line => {
+    const cells = splitCsvLine(line, delimiter);
+    return {
+      date: cells[dateCol],
+      open: openCol !== -1 ? cells[openCol] : undefined,
+      high: highCol !== -1 ? cells[highCol] : undefined,
+      low: lowCol !== -1 ? cells[lowCol] : undefined,
+      close: cells[closeCol],
+      rawClose: rawCloseCol !== -1 ? cells[rawCloseCol] : undefined
+    };
+  });
+};
+
+// Accepts an array of objects, an array of [date, close] pairs, or either of those under a `data` key.
+const parseJson = (text: string): RawRow[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  const rows = Array.isArray(parsed) ? parsed : (parsed as { data?: unknown })?.data;
+  if (!Array.isArray(rows)) throw new Error('JSON must be an array of rows or an object with a "data" array');
+  return rows.map(row => {
+    if (Array.isArray(row)) return { date: row[0], close: row[1] };
+    if (row === null || typeof row !== 'object') return { date: undefined, close: undefined };
+    const keys = Object.keys(row);
+    const values = Object.values(row);
+    const at = (candidates: string[]) => {
+      const index = findKey(keys, candidates);
+      return index === -1 ? undefined : values[index];
+    };
+    return { date: at(DATE_KEYS), open: at(['open']), high: at(['high']), low: at(['low']), close: at(CLOSE_KEYS), rawClose: at(['close']) };
+  });
+};
+
+// --- 2. Cleaning ---
+
+const toNumber = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string' || value.trim() === '') return NaN;
+  return Number(value.replace(/[$,\s]/g, ''));
+};
+
+// Numbers are treated as Unix timestamps (seconds if small enough, else milliseconds) and read in UTC, as are
+// YYYY-MM-DD strings. Date.parse reads any other string as local time, so its date comes from the local calendar.
+// Returns YYYY-MM-DD or null.
+const toIsoDate = (value: unknown): string | null => {
+  let time: number;
+  let local = false;
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d{9,13}$/.test(value.trim()))) {
+    const n = Number(value);
+    time = n < 1e11 ? n * 1000 : n;
+  } else if (typeof value === 'string' && value.trim() !== '') {
+    const trimmed = value.trim();
+    local = !/^\d{4}-\d{2}-\d{2}$/.test(trimmed);
+    time = local ? Date.parse(trimmed) : Date.parse(`${trimmed}T00:00:00Z`);
+  } else {
+    return null;
+  }
+  if (!Number.isFinite(time)) return null;
+  const date = new Date(time);
+  if (!local) return date.toISOString().slice(0, 10);
+  const pad = (n: number, width: number) => String(n).padStart(width, '0');
+  return `${pad(date.getFullYear(), 4)}-${pad(date.getMonth() + 1, 2)}-${pad(date.getDate(), 2)}`;
+};
+
+const isPositive = (v: number | undefined): v is number => v !== undefined && Number.isFinite(v) && v > 0;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Weekdays strictly between two ISO dates, i.e. trading days the series skips (holidays included).
+const countMissingWeekdays = (from: string, to: string): number => {
+  let missing = 0;
+  for (let t = Date.parse(from) + DAY_MS; t < Date.parse(to); t += DAY_MS) {
+    const weekday = new Date(t).getUTCDay();
+    if (weekday !== 0 && weekday !== 6) missing++;
+  }
+  return missing;
+};
+
+const summarizeSeries = (bars: PriceBar[], droppedRows: number, duplicateRows: number): SeriesSummary => {
+  const logReturns = bars.slice(1).map((bar, i) => Math.log(bar.close / bars[i].close));
+  const mean = logReturns.reduce((a, b) => a + b, 0) / logReturns.length;
+  const variance = logReturns.reduce((a, r) => a + (r - mean) ** 2, 0) / Math.max(1, logReturns.length - 1);
+  const startDate = bars[0].date;
+  const endDate = bars[bars.length - 1].date;
+  const years = (Date.parse(endDate) - Date.parse(startDate)) / DAY_MS / 365.25;
+  const periodsPerYear = years > 0 ? logReturns.length / years : 252;
+  const annualVolatility = Math.sqrt(variance * periodsPerYear);
+  let missingDays = 0;
+  for (let i = 1; i < bars.length; i++) missingDays += countMissingWeekdays(bars[i - 1].date, bars[i].date);
+  return {
+    startDate,
+    endDate,
+    observations: bars.length,
+    missingDays,
+    droppedRows,
+    duplicateRows,
+    hasOhlc: bars.every(b => b.open !== undefined),
+    periodsPerYear,
+    annualVolatility,
+    // GBM drift: the log-return mean plus the volatility correction, matching MarketConfig.drift.
+    annualDrift: mean * periodsPerYear + 0.5 * annualVolatility ** 2
+  };
+};
+
+const cleanRows = (rows: RawRow[]): { bars: PriceBar[], droppedRows: number, duplicateRows: number } => {
+  const byDate = new Map<string, PriceBar>();
+  let droppedRows = 0;
+  let duplicateRows = 0;
+  for (const row of rows) {
+    const date = toIsoDate(row.date);
+    const close = toNumber(row.close);
+    if (date === null || !isPositive(close)) {
+      droppedRows++;
+      continue;
+    }
+    const bar: PriceBar = { date, close };
+    const open = toNumber(row.open);
+    const high = toNumber(row.high);
+    const low = toNumber(row.low);
+    // OHLC is kept only when it is complete and consistent with the close it was quoted against; otherwise the row
+    // falls back to close-only. Kept bars are scaled by adjusted / raw close so the range matches the close used.
+    const rawClose = toNumber(row.rawClose);
+    const quotedClose = isPositive(rawClose) ? rawClose : close;
+    if (isPositive(open) && isPositive(high) && isPositive(low) && high >= Math.max(open, quotedClose, low) && low <= Math.min(open, quotedClose)) {
+      const scale = close / quotedClose;
+      Object.assign(bar, { open: open * scale, high: high * scale, low: low * scale });
+    }
+    if (byDate.has(date)) duplicateRows++;
+    byDate.set(date, bar);
+  }
+  const bars = [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+  return { bars, droppedRows, duplicateRows };
+};
+
+// --- 3. Public API ---
+
+export const parsePriceFile = (name: string, text: string): ImportedSeries => {
+  const isJson = name.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(text);
+  const { bars, droppedRows, duplicateRows } = cleanRows(isJson ? parseJson(text) : parseCsv(text));
+  if (bars.length < 2) throw new Error(`Only ${bars.length} valid row(s) found; at least 2 dated prices are needed`);
+  return { name, bars, summary: summarizeSeries(bars, droppedRows, duplicateRows) };
+};
+
+// Pasted text: prices separated by newlines, commas, semicolons or whitespace, oldest first.
+export const parsePastedPrices = (text: string): number[] => {
+  const tokens = text.split(/[\s,;]+/).filter(t => t !== '');
+  const prices = tokens.map(toNumber);
+  const bad = prices.findIndex(p => !isPositive(p));
+  if (bad !== -1) throw new Error(`"${tokens[bad]}" is not a positive price`);
+  if (prices.length < 3) throw new Error(`Only ${prices.length} price(s) found; at least 3 are needed`);
+  return prices;
+};
+
+// Log returns for the bootstrap model, rounded to 6 decimals to keep share links short.
+export const toBootstrapReturns = (prices: number[]): number[] =>
+  prices.slice(1).map((p, i) => Math.round(Math.log(p / prices[i]) * 1e6) / 1e6);
+
+// Bars for the indicators, or null when the file had closes only. Import already scaled the range to an adjusted
+// close; widening it to the close only absorbs rounding. A missing open, high or low falls back to the close.
+export const toOhlcBars = (series: ImportedSeries): OhlcBars | null => {
+  if (!series.summary.hasOhlc) return null;
+  return {
+    open: series.bars.map(bar => bar.open ?? bar.close),
+    high: series.bars.map(bar => Math.max(bar.high ?? bar.close, bar.close)),
+    low: series.bars.map(bar => Math.min(bar.low ?? bar.close, bar.close))
+  };
+};
@@ -0,0 +1,121 @@
+import { DEFAULT_ASSET_MODEL, DEFAULT_MARKET, DEFAULT_STRATEGY } from './defaults';
+import type { StepData, SimulationResult, MarketConfig, AssetConfig, ScenarioSegment, StrategyConfig, ImportedSeries, RunBundle } from './types';
+
+// --- 1. CSV ---
+
+const RUN_BUNDLE_VERSION = 1;
+
+const csvCell = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: unknown[][]): string =>
+  [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+
+// Columns follow StepData's own fields, so new per-step fields show up without touching the exporter.
+// Per-asset arrays are spread into numbered columns (prices_1, prices_2, ...).
+export const stepsToCsv = (data: StepData[]): string => {
+  const columns: { key: string, index?: number }[] = [];
+  const seen = new Set<string>();
+  for (const step of data) {
+    for (const [key, value] of Object.entries(step)) {
+      if (value === undefined) continue;
+      const width = Array.isArray(value) ? value.length : 0;
+      if (width > 0) {
+        for (let i = 0; i < width; i++) {
+          const name = `${key}_${i + 1}`;
+          if (!seen.has(name)) { seen.add(name); columns.push({ key, index: i }); }
+        }
+      } else if (!Array.isArray(value) && !seen.has(key)) {
+        seen.add(key);
+        columns.push({ key });
+      }
+    }
+  }
+  const header = columns.map(c => c.index === undefined ? c.key : `${c.key}_${c.index + 1}`);
+  const rows = data.map(step => columns.map(({ key, index }) => {
+    const value = (step as unknown as Record<string, unknown>)[key];
+    return index === undefined ? value : (value as unknown[] | undefined)?.[index];
+  }));
+  return toCsv(header, rows);
+};
+
+export const ledgerToCsv = (data: StepData[]): string => {
+  const header = ['day', 'date', 'price', 'fillPrice', 'action', 'trigger', 'tradeAmount', 'fee', 'cashFlow', 'allocationBefore', 'allocationAfter', 'targetAllocation', 'rsi', 'adx', 'tradePnl'];
+  const rows = data
+    .filter(step => step.action !== 'hold' || step.cashFlow !== undefined)
+    .map(step => [step.day, step.date, step.price, step.fillPrices?.[0], step.action, step.trigger, step.tradeAmount, step.fee, step.cashFlow, step.allocationBefore, step.allocation, step.targetAllocation, step.rsi, step.adx, step.tradePnl]);
+  return toCsv(header, rows);
+};
+
+// --- 2. Run Bundle ---
+
+export const buildRunBundle = (market: MarketConfig, strategy: StrategyConfig, imported: ImportedSeries | null, pricePaths: number[][], result: SimulationResult): RunBundle => {
+  const { data, ...summary } = result;
+  return {
+    format: 'quantsim-run',
+    version: RUN_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    market,
+    strategy,
+    imported,
+    pricePaths,
+    summary
+  };
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// Missing config fields (bundles from older versions) fall back to the defaults rather than becoming undefined.
+export const parseRunBundle = (text: string): RunBundle => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Run bundle is not valid JSON');
+  }
+  if (!isObject(parsed) || parsed.format !== 'quantsim-run') throw new Error('Not a QuantSim run bundle');
+  if (typeof parsed.version !== 'number' || parsed.version > RUN_BUNDLE_VERSION) {
+    throw new Error(`Unsupported run bundle version: ${String(parsed.version)}`);
+  }
+  if (!isObject(parsed.market) || !isObject(parsed.strategy)) throw new Error('Run bundle is missing its market or strategy config');
+  const imported = parsed.imported;
+  if (imported !== null && imported !== undefined && !(isObject(imported) && Array.isArray(imported.bars))) {
+    throw new Error('Run bundle has a malformed imported series');
+  }
+  return {
+    ...(parsed as unknown as RunBundle),
+    market: {
+      ...DEFAULT_MARKET,
+      ...(parsed.market as Partial<MarketConfig>),
+      // Assets saved before a model field existed get its default too.
+      extraAssets: Array.isArray(parsed.market.extraAssets)
+        ? (parsed.market.extraAssets as Partial<AssetConfig>[]).map((asset, i) => ({ ...DEFAULT_ASSET_MODEL, name: `Asset ${i + 2}`, ...asset }))
+        : [],
+      segments: Array.isArray(parsed.market.segments)
+        ? (parsed.market.segments as Partial<ScenarioSegment>[]).map(segment => ({ ...DEFAULT_ASSET_MODEL, days: 100, ...segment }))
+        : DEFAULT_MARKET.segments
+    },
+    // Bundles saved before `indicatorMethod` existed were run with the legacy indicators.
+    strategy: { ...DEFAULT_STRATEGY, indicatorMethod: 'legacy', ...(parsed.strategy as Partial<StrategyConfig>) },
+    imported: (imported as ImportedSeries | undefined) ?? null,
+    pricePaths: Array.isArray(parsed.pricePaths) ? parsed.pricePaths as number[][] : []
+  };
+};
+
+// --- 3. Download ---
+
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  // Some browsers only start the download from a link in the document and read the blob well after click()
+  // returns, so the URL is kept alive for a while.
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 10000);
+};
@@ -0,0 +1,254 @@
+import { DEFAULT_ASSET_MODEL, DEFAULT_MARKET, DEFAULT_STRATEGY, DEFAULT_STRATEGY_NAME, MAX_STRATEGIES, MARKET_PRESETS } from './defaults';
+import { normalizeCorrelation } from './engine';
+import type { AssetModel, MarketConfig, StrategyConfig, NamedStrategy, MarketPreset, ImportedSeriesRef, SharedScenario } from './types';
+
+// --- 1. Field Rules ---
+
+// v2 added `indicatorMethod`; v1 links were made with the legacy indicators and decode with them.
+const SHARE_VERSION = 2;
+
+// Any field not listed here only has to match its default's type; numbers must also be finite.
+const NUMBER_RANGES: Record<string, [number, number]> = {
+  initialPrice: [0.0001, 1e9],
+  days: [1, 10000],
+  volatility: [0, 5],
+  drift: [-5, 5],
+  meanReversionSpeed: [0, 1000],
+  longTermMean: [0.0001, 1e9],
+  jumpIntensity: [0, 365],
+  jumpMean: [-5, 5],
+  jumpStdDev: [0, 5],
+  hestonKappa: [0, 100],
+  hestonTheta: [0, 25],
+  hestonVolOfVol: [0, 10],
+  hestonRho: [-1, 1],
+  garchAlpha: [0, 1],
+  garchBeta: [0, 1],
+  expectedDays: [1, 1e6],
+  bootstrapBlockLength: [1, 10000],
+  day: [1, 100000],
+  size: [-0.99, 20],
+  duration: [1, 10000],
+  seed: [0, 4294967295],
+  intradaySteps: [2, 1000],
+  initialCapital: [1, 1e12],
+  targetAllocation: [-5, 5],
+  minAllocation: [-5, 5],
+  maxAllocation: [-5, 5],
+  indicatorPeriod: [1, 1000],
+  adxThreshold: [0, 100],
+  targetVolatility: [0.001, 5],
+  fastPeriod: [1, 1000],
+  slowPeriod: [1, 1000],
+  bollingerWidth: [0.1, 10],
+  momentumLookback: [1, 10000],
+  cppiFloor: [0, 1],
+  cppiMultiplier: [0, 100],
+  rebalanceThreshold: [0, 1],
+  lowerRebalanceThreshold: [0, 1],
+  rebalanceFrequency: [1, 10000],
+  partialRebalanceFraction: [0, 1],
+  minDaysBetweenRebalances: [0, 10000],
+  transactionFeeRate: [0, 1],
+  spread: [0, 1],
+  slippageImpact: [0, 100],
+  dailyLiquidity: [0, 1e15],
+  fixedFee: [0, 1e9],
+  minTradeNotional: [0, 1e12],
+  riskFreeRate: [-1, 1],
+  cashYield: [-1, 1],
+  assetYield: [0, 1],
+  borrowRate: [0, 1],
+  longTermDays: [0, 100000],
+  shortTermTaxRate: [0, 1],
+  longTermTaxRate: [0, 1],
+  cashFlowAmount: [-1e12, 1e12],
+  cashFlowPercent: [-1, 10],
+  cashFlowFrequency: [1, 10000],
+  inflationRate: [-1, 1],
+  maintenanceMargin: [0, 1]
+};
+
+const ENUM_VALUES: Record<string, readonly string[]> = {
+  type: ['GBM', 'OU', 'JUMP', 'HESTON', 'GARCH', 'REGIME', 'BOOTSTRAP'],
+  bootstrapMethod: ['block', 'stationary'],
+  allocationMode: ['fixed', 'rsi', 'adx', 'volTarget', 'maCrossover', 'bollinger', 'momentum', 'cppi'],
+  rebalanceType: ['threshold', 'time', 'timeBand'],
+  bandType: ['absolute', 'relative'],
+  rebalanceTo: ['target', 'bandEdge', 'partial'],
+  assetYieldMode: ['cash', 'reinvest'],
+  lotMethod: ['FIFO', 'LIFO', 'HIFO'],
+  cashFlowType: ['fixed', 'percent'],
+  indicatorMethod: ['wilder', 'legacy'],
+  kind: ['gap', 'volSpike']
+};
+
+// Arrays of objects are checked element by element against these templates.
+const ARRAY_ITEM_DEFAULTS: Record<string, object> = {
+  extraAssets: { ...DEFAULT_ASSET_MODEL, name: 'Asset' },
+  regimes: { name: 'Regime', drift: 0, volatility: 0.2, expectedDays: 60 },
+  segments: { ...DEFAULT_ASSET_MODEL, days: 100 },
+  shocks: { kind: 'gap', day: 1, size: 0, duration: 1 }
+};
+
+const isNumberArray = (value: unknown): boolean =>
+  Array.isArray(value) && value.every(v => (typeof v === 'number' && Number.isFinite(v)) || isNumberArray(v));
+
+const isValidValue = (key: string, value: unknown, fallback: unknown): boolean => {
+  if (typeof fallback === 'number') {
+    const range = NUMBER_RANGES[key];
+    return typeof value === 'number' && Number.isFinite(value) && (!range || (value >= range[0] && value <= range[1]));
+  }
+  if (typeof fallback === 'string') {
+    return typeof value === 'string' && (!ENUM_VALUES[key] || ENUM_VALUES[key].includes(value));
+  }
+  if (typeof fallback === 'boolean') return typeof value === 'boolean';
+  if (Array.isArray(fallback)) return Array.isArray(value) && (key in ARRAY_ITEM_DEFAULTS || isNumberArray(value));
+  if (fallback === null) return true;
+  return typeof value === typeof fallback;
+};
+
+// Keeps every field that passes its rule and falls back to the default for the rest, recording what was dropped.
+const sanitize = <T extends object>(defaults: T, raw: unknown, path: string, issues: string[]): T => {
+  const result = { ...defaults } as Record<string, unknown>;
+  if (raw === null || typeof raw !== 'object' || Array.isArray(raw)) {
+    issues.push(path);
+    return result as T;
+  }
+  for (const [key, value] of Object.entries(raw)) {
+    const fieldPath = `${path}.${key}`;
+    if (!(key in defaults)) {
+      issues.push(`${fieldPath} (no longer supported)`);
+      continue;
+    }
+    const fallback = (defaults as Record<string, unknown>)[key];
+    if (!isValidValue(key, value, fallback)) {
+      issues.push(fieldPath);
+      continue;
+    }
+    const itemDefaults = ARRAY_ITEM_DEFAULTS[key];
+    result[key] = itemDefaults ? (value as unknown[]).map((item, i) => sanitize(itemDefaults, item, `${fieldPath}[${i}]`, issues)) : value;
+  }
+  return result as T;
+};
+
+// --- 2. Encoding ---
+
+const toBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+// Only fields that differ from the baseline are written, which keeps links short.
+const diff = <T extends object>(value: T, baseline: T): Partial<T> =>
+  Object.fromEntries(Object.entries(value).filter(([key, v]) => JSON.stringify(v) !== JSON.stringify((baseline as Record<string, unknown>)[key]))) as Partial<T>;
+
+// A bootstrap source is one number per day of history, far too long for a URL, so links keep only its name,
+// the same way imported data travels as a reference.
+const withoutReturns = <T extends AssetModel>(model: T): T => ({ ...model, bootstrapReturns: [] });
+
+const stripBootstrapReturns = (market: MarketConfig): MarketConfig => ({
+  ...withoutReturns(market),
+  extraAssets: market.extraAssets.map(withoutReturns),
+  segments: market.segments.map(withoutReturns)
+});
+
+const presetBaseline = (preset: MarketPreset | null): MarketConfig =>
+  preset ? { ...DEFAULT_MARKET, ...MARKET_PRESETS[preset](DEFAULT_MARKET) } : DEFAULT_MARKET;
+
+// The first strategy keeps the original `s` slot so older links still decode; compared strategies go in `c`.
+export const encodeScenario = (scenario: SharedScenario): string => {
+  const [first, ...others] = scenario.strategies;
+  const payload = {
+    p: scenario.preset ?? undefined,
+    m: { ...diff(stripBootstrapReturns(scenario.market), presetBaseline(scenario.preset)), seed: scenario.market.seed },
+    s: diff(first.config, DEFAULT_STRATEGY),
+    n: first.name !== DEFAULT_STRATEGY_NAME ? first.name : undefined,
+    c: others.length > 0 ? others.map(({ name, config }) => ({ n: name, s: diff(config, DEFAULT_STRATEGY) })) : undefined,
+    i: scenario.importedRef ?? undefined
+  };
+  return `v=${SHARE_VERSION}&s=${toBase64Url(JSON.stringify(payload))}`;
+};
+
+// --- 3. Decoding ---
+
+export interface DecodedScenario {
+  scenario: SharedScenario;
+  // Fields that were dropped or repaired; empty when the link loaded cleanly.
+  issues: string[];
+}
+
+// Keeps per-asset arrays in step with the asset list, whatever the link said.
+const repairStrategy = (strategy: StrategyConfig, assetCount: number, path: string, issues: string[]): StrategyConfig => {
+  if (strategy.assetWeights.length !== assetCount) {
+    strategy.assetWeights = Array.from({ length: assetCount }, (_, i) => strategy.assetWeights[i] ?? 1);
+    issues.push(`${path}.assetWeights (resized to match assets)`);
+  }
+  if (strategy.minAllocation > strategy.maxAllocation) {
+    strategy.minAllocation = DEFAULT_STRATEGY.minAllocation;
+    strategy.maxAllocation = DEFAULT_STRATEGY.maxAllocation;
+    issues.push(`${path}.minAllocation/maxAllocation (min was above max)`);
+  }
+  return strategy;
+};
+
+// Returns null when the hash holds no scenario. Throws when it holds one that cannot be read at all.
+export const decodeScenario = (hash: string): DecodedScenario | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const encoded = params.get('s');
+  if (!encoded) return null;
+  const version = Number(params.get('v'));
+  if (!Number.isInteger(version) || version < 1) throw new Error('Shared link has no valid version');
+  if (version > SHARE_VERSION) throw new Error(`Shared link is from a newer version (v${version}) of QuantSim`);
+
+  let payload: { p?: unknown, m?: unknown, s?: unknown, n?: unknown, c?: unknown, i?: unknown };
+  try {
+    payload = JSON.parse(fromBase64Url(encoded));
+  } catch {
+    throw new Error('Shared link is corrupted and could not be read');
+  }
+
+  const issues: string[] = [];
+  const preset = typeof payload.p === 'string' && payload.p in MARKET_PRESETS ? payload.p as MarketPreset : null;
+  if (payload.p !== undefined && preset === null) issues.push('preset');
+
+  const market = sanitize(presetBaseline(preset), payload.m ?? {}, 'market', issues);
+  market.correlation = normalizeCorrelation(market.correlation, market.extraAssets.length + 1);
+  const models: [string, AssetModel][] = [
+    ['market', market],
+    ...market.extraAssets.map((model, i): [string, AssetModel] => [`market.extraAssets[${i}]`, model]),
+    ...market.segments.map((model, i): [string, AssetModel] => [`market.segments[${i}]`, model])
+  ];
+  models
+    .filter(([, model]) => model.type === 'BOOTSTRAP' && model.bootstrapReturns.length === 0 && model.bootstrapSource !== '')
+    .forEach(([path, model]) => issues.push(`${path}.bootstrapReturns (not stored in links; load ${model.bootstrapSource} again)`));
+
+  const strategyDefaults: StrategyConfig = version < 2 ? { ...DEFAULT_STRATEGY, indicatorMethod: 'legacy' } : DEFAULT_STRATEGY;
+  const compared = Array.isArray(payload.c) ? payload.c as { n?: unknown, s?: unknown }[] : [];
+  if (payload.c !== undefined && !Array.isArray(payload.c)) issues.push('compared strategies');
+  if (compared.length + 1 > MAX_STRATEGIES) issues.push(`compared strategies (only ${MAX_STRATEGIES} are kept)`);
+  const strategies: NamedStrategy[] = [{ n: payload.n, s: payload.s }, ...compared.slice(0, MAX_STRATEGIES - 1)].map((entry, i) => {
+    const path = i === 0 ? 'strategy' : `strategies[${i}]`;
+    const raw = entry !== null && typeof entry === 'object' ? entry : {};
+    if (raw !== entry) issues.push(path);
+    return {
+      name: typeof raw.n === 'string' && raw.n.trim() !== '' ? raw.n : i === 0 ? DEFAULT_STRATEGY_NAME : `Strategy ${i + 1}`,
+      config: repairStrategy(sanitize(strategyDefaults, raw.s ?? {}, path, issues), market.extraAssets.length + 1, path, issues)
+    };
+  });
+
+  const ref = payload.i as Partial<ImportedSeriesRef> | undefined;
+  const importedRef = ref && typeof ref.name === 'string' && typeof ref.startDate === 'string' && typeof ref.endDate === 'string' && typeof ref.observations === 'number'
+    ? { name: ref.name, startDate: ref.startDate, endDate: ref.endDate, observations: ref.observations }
+    : null;
+  if (ref !== undefined && importedRef === null) issues.push('imported data reference');
+
+  return { scenario: { market, strategies, preset, importedRef }, issues };
+};
@@ -0,0 +1,94 @@
+import { generateMarketPaths, regimeModelIndex, runSimulation, runMonteCarlo, runSweep, computeAlphaAttribution } from './engine';
+import type { MarketPaths, SweepPath } from './engine';
+import { toOhlcBars } from './priceImport';
+import type { MarketConfig, ImportedSeries, RunControl, WorkerRequest, WorkerResponse } from './types';
+
+// --- 1. Worker State ---
+
+// Only batches (Monte Carlo, sweeps) are cancellable: they yield between chunks, single runs finish in one tick.
+const cancelledIds = new Set<number>();
+let pendingSingle: Extract<WorkerRequest, { kind: 'single' }> | null = null;
+let cachedPaths: { key: string, paths: MarketPaths } | null = null;
+
+const post = (message: WorkerResponse) => self.postMessage(message);
+
+// The path only depends on the market config, so strategy edits reuse it instead of regenerating.
+const getMarketPaths = (market: MarketConfig): MarketPaths => {
+  const key = JSON.stringify(market);
+  if (!cachedPaths || cachedPaths.key !== key) {
+    cachedPaths = { key, paths: generateMarketPaths(market) };
+  }
+  return cachedPaths.paths;
+};
+
+// --- 2. Request Handlers ---
+
+// Imported history replaces the whole simulated market, extra assets included.
+const getCurrentPath = (market: MarketConfig, imported: ImportedSeries | null): SweepPath => {
+  if (!imported) {
+    const { prices, ohlc } = getMarketPaths(market);
+    return { market, pricePaths: prices, ohlc: ohlc?.[0] ?? null };
+  }
+  return { market, pricePaths: [imported.bars.map(bar => bar.close)], dates: imported.bars.map(bar => bar.date), ohlc: toOhlcBars(imported) };
+};
+
+// Single runs are deferred by one tick so a burst of queued requests collapses into the latest one.
+const flushSingle = () => {
+  const request = pendingSingle;
+  pendingSingle = null;
+  if (!request) return;
+  try {
+    const path = getCurrentPath(request.market, request.imported);
+    const { market, pricePaths, dates, ohlc } = path;
+    const [pricePath, ...extraPaths] = pricePaths;
+    // Imported history has no model volatility or regimes to show.
+    const modelPaths = request.imported ? null : getMarketPaths(market);
+    const regimePath = modelPaths?.regimes[regimeModelIndex(market)] ?? [];
+    const results = request.strategies.map((strategy, i) => {
+      const result = runSimulation(market, strategy, pricePath, extraPaths, dates, regimePath, ohlc);
+      return i === request.attributeIndex ? { ...result, attribution: computeAlphaAttribution(path, strategy, result) } : result;
+    });
+    const volatilityPaths = modelPaths?.volatility ?? null;
+    post({ id: request.id, kind: 'single', pricePaths, volatilityPaths, results });
+  } catch (err) {
+    post({ id: request.id, kind: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
+
+// Shared plumbing for cancellable batches: progress messages, a cancelled reply on null, errors as messages.
+const runBatch = async <T>(id: number, run: (control: RunControl) => Promise<T | null>, toResponse: (result: T) => WorkerResponse) => {
+  try {
+    const result = await run({
+      onProgress: (progress) => post({ id, kind: 'progress', progress }),
+      isCancelled: () => cancelledIds.has(id)
+    });
+    post(result ? toResponse(result) : { id, kind: 'cancelled' });
+  } catch (err) {
+    post({ id, kind: 'error', message: err instanceof Error ? err.message : String(err) });
+  } finally {
+    cancelledIds.delete(id);
+  }
+};
+
+self.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const request = e.data;
+  switch (request.kind) {
+    case 'cancel':
+      cancelledIds.add(request.id);
+      break;
+    case 'single':
+      if (!pendingSingle) setTimeout(flushSingle, 0);
+      pendingSingle = request;
+      break;
+    case 'monteCarlo':
+      runBatch(request.id,
+        control => runMonteCarlo(request.market, request.strategy, request.runs, control, request.attribute),
+        result => ({ id: request.id, kind: 'monteCarlo', result }));
+      break;
+    case 'sweep':
+      runBatch(request.id,
+        control => runSweep(request.strategy, request.config, getCurrentPath(request.market, request.imported), control),
+        result => ({ id: request.id, kind: 'sweep', result }));
+      break;
+  }
+};
@@ -0,0 +1,543 @@
+// --- 1. Types & Interfaces ---
+
+export type ModelType = 'GBM' | 'OU' | 'JUMP' | 'HESTON' | 'GARCH' | 'REGIME' | 'BOOTSTRAP';
+export type BootstrapMethod = 'block' | 'stationary';
+// 'timeBand' checks on the calendar but only trades when a weight is outside its band.
+export type RebalanceType = 'threshold' | 'time' | 'timeBand';
+export type BandType = 'absolute' | 'relative';
+export type RebalanceTarget = 'target' | 'bandEdge' | 'partial';
+// Each mode is an entry in ALLOCATION_STRATEGIES (allocation.ts).
+export type AllocationMode = 'fixed' | 'rsi' | 'adx' | 'volTarget' | 'maCrossover' | 'bollinger' | 'momentum' | 'cppi';
+export type YieldMode = 'cash' | 'reinvest';
+export type LotMethod = 'FIFO' | 'LIFO' | 'HIFO';
+export type CashFlowType = 'fixed' | 'percent';
+// 'wilder' is the textbook RSI/ADX; 'legacy' keeps the original close-to-close approximations.
+export type IndicatorMethod = 'wilder' | 'legacy';
+// Why a step traded: a weight left its band, the calendar came round, a cash flow was invested or a margin breach.
+export type TradeTrigger = 'band' | 'calendar' | 'flow' | 'liquidation';
+export type MarketPreset = 'BULL' | 'BEAR' | 'SIDEWAYS' | 'VOLATILE' | 'CRASH';
+
+// One state of the regime-switching model. Leaving a regime is memoryless, so `expectedDays` is its mean duration.
+export interface MarketRegime {
+  name: string;
+  drift: number;
+  volatility: number;
+  expectedDays: number;
+}
+
+// Pricing model parameters for a single asset.
+export interface AssetModel {
+  initialPrice: number;
+  type: ModelType;
+  drift: number;
+  volatility: number;
+  meanReversionSpeed: number;
+  longTermMean: number;
+  jumpIntensity: number;
+  jumpMean: number;
+  jumpStdDev: number;
+  // Heston: variance mean-reversion speed, long-run variance, vol of vol and price/variance shock correlation.
+  hestonKappa: number;
+  hestonTheta: number;
+  hestonVolOfVol: number;
+  hestonRho: number;
+  // GARCH(1,1) weights on the last squared shock and the last variance; `volatility` is the long-run level.
+  garchAlpha: number;
+  garchBeta: number;
+  // Regime-switching: the path starts in the first regime.
+  regimes: MarketRegime[];
+  // Bootstrap: daily log returns of the source series, resampled in blocks of (on average, for 'stationary')
+  // `bootstrapBlockLength` days. `bootstrapSource` names where the returns came from.
+  bootstrapMethod: BootstrapMethod;
+  bootstrapBlockLength: number;
+  bootstrapReturns: number[];
+  bootstrapSource: string;
+}
+
+export interface AssetConfig extends AssetModel {
+  name: string;
+}
+
+// One stretch of a composed scenario, priced with its own model from wherever the previous segment ended.
+// `initialPrice` is ignored.
+export interface ScenarioSegment extends AssetModel {
+  days: number;
+}
+
+export type ShockKind = 'gap' | 'volSpike';
+
+// A scheduled event on the first asset. 'gap' moves the price on `day` by `size` (-0.3 = -30%) and the level
+// shift is permanent; 'volSpike' multiplies the volatility by `size` for `duration` days from `day`.
+export interface ScenarioShock {
+  kind: ShockKind;
+  day: number;
+  size: number;
+  duration: number;
+}
+
+// The market's own model fields describe the first asset; `extraAssets` adds more.
+// `correlation` is the N x N matrix of daily shock correlations, N = 1 + extraAssets.length.
+// With `scenarioEnabled`, the first asset follows `segments` instead of its own model and the path runs for
+// the segments' total length rather than `days`. With `intradayBars`, each day is also sub-stepped
+// `intradaySteps` times between closes to give it an open, high and low; the closes themselves do not change.
+export interface MarketConfig extends AssetModel {
+  days: number;
+  seed: number;
+  intradayBars: boolean;
+  intradaySteps: number;
+  assetName: string;
+  extraAssets: AssetConfig[];
+  correlation: number[][];
+  scenarioEnabled: boolean;
+  segments: ScenarioSegment[];
+  shocks: ScenarioShock[];
+}
+
+export interface StrategyConfig {
+  initialCapital: number;
+  allocationMode: AllocationMode;
+  // Allocations are fractions of equity and may leave 0-1: above 1 borrows cash, below 0 sells short.
+  targetAllocation: number;
+  // Split of the risky allocation across assets (first asset first). Only the ratios matter.
+  assetWeights: number[];
+  minAllocation: number;
+  maxAllocation: number;
+  indicatorPeriod: number;
+  adxThreshold: number;
+  // How RSI and ADX are computed. Wilder's ADX uses the bars' highs and lows when the path has them.
+  indicatorMethod: IndicatorMethod;
+  // Parameters of the other allocation modes; `indicatorPeriod` doubles as their lookback where they need one.
+  targetVolatility: number;
+  fastPeriod: number;
+  slowPeriod: number;
+  bollingerWidth: number;
+  momentumLookback: number;
+  // CPPI floor as a fraction of initial capital, and the multiple of the cushion above it held in the assets.
+  cppiFloor: number;
+  cppiMultiplier: number;
+  rebalanceType: RebalanceType;
+  // Band around each target weight: `rebalanceThreshold` above it and, with `asymmetricBands`,
+  // `lowerRebalanceThreshold` below it. Relative bands are a fraction of the target weight instead of weight points.
+  rebalanceThreshold: number;
+  lowerRebalanceThreshold: number;
+  asymmetricBands: boolean;
+  bandType: BandType;
+  rebalanceFrequency: number;
+  // How far a rebalance trades: back to target, only to the nearest band edge, or `partialRebalanceFraction`
+  // of the gap. No policy rebalance happens within `minDaysBetweenRebalances` steps of the last one.
+  rebalanceTo: RebalanceTarget;
+  partialRebalanceFraction: number;
+  minDaysBetweenRebalances: number;
+  transactionFeeRate: number;
+  // Execution model. `spread` is the full bid/ask spread as a fraction of price, half of it paid on every trade;
+  // slippage moves the fill a further `slippageImpact` x (trade notional / `dailyLiquidity`). `fixedFee` is charged
+  // per asset traded, orders at or below `minTradeNotional` are skipped, and `wholeUnits` trades whole units only.
+  spread: number;
+  slippageImpact: number;
+  dailyLiquidity: number;
+  fixedFee: number;
+  minTradeNotional: number;
+  wholeUnits: boolean;
+  // Annual rate used by the Sharpe and Sortino ratios.
+  riskFreeRate: number;
+  // Annual carry rates, accrued every step for both the strategy and buy & hold: `cashYield` on positive cash,
+  // `borrowRate` on negative cash, and `assetYield` on the asset value, paid into cash or reinvested in the assets.
+  cashYield: number;
+  assetYield: number;
+  assetYieldMode: YieldMode;
+  borrowRate: number;
+  // Tax lots: sells consume lots in `lotMethod` order. Gains on lots held at least `longTermDays` steps are
+  // long-term. Tax is paid from cash when gains are realized; losses are carried forward against later gains.
+  lotMethod: LotMethod;
+  longTermDays: number;
+  shortTermTaxRate: number;
+  longTermTaxRate: number;
+  // Cash flows every `cashFlowFrequency` steps, for both portfolios: `cashFlowAmount` dollars, or `cashFlowPercent`
+  // of the portfolio's equity. Positive adds money, negative withdraws it. Fixed amounts grow at `inflationRate`
+  // when `inflationAdjusted`. With `flowRebalancing`, the strategy points flows at the underweight (or, for
+  // withdrawals, overweight) assets instead of leaving them in cash.
+  cashFlowType: CashFlowType;
+  cashFlowAmount: number;
+  cashFlowPercent: number;
+  cashFlowFrequency: number;
+  inflationRate: number;
+  inflationAdjusted: boolean;
+  flowRebalancing: boolean;
+  // Equity as a fraction of gross exposure (longs plus shorts) below which every position is force-liquidated.
+  // Unleveraged portfolios never breach it; 0 liquidates only once equity turns negative.
+  maintenanceMargin: number;
+}
+
+// A strategy as the user names it for side-by-side comparison on one path.
+export interface NamedStrategy {
+  name: string;
+  config: StrategyConfig;
+}
+
+export interface StepData {
+  day: number;
+  date?: string;
+  price: number;
+  // The first asset's intraday bar, when the path has one; `price` is its close.
+  open?: number;
+  high?: number;
+  low?: number;
+  prices: number[];
+  weights: number[];
+  targetWeights: number[];
+  hodlValue: number;
+  strategyValue: number;
+  // How far each portfolio's flow-adjusted value is below its running peak, as a fraction of the peak.
+  drawdown: number;
+  hodlDrawdown: number;
+  strategyCash: number;
+  strategyAssetValue: number;
+  allocation: number;
+  targetAllocation: number;
+  rsi?: number;
+  adx?: number;
+  plusDI?: number;
+  minusDI?: number;
+  // Moving average of the first asset's closes over `indicatorPeriod`, the ADX mode's trend filter.
+  sma?: number;
+  // Index into the regime-switching model's `regimes`, for the regime that drove this day's move.
+  regime?: number;
+  // 'liquidate' is a forced close of every strategy position after a margin breach.
+  action: 'buy' | 'sell' | 'hold' | 'liquidate';
+  // Set on trading steps: what fired last, and the total allocation just before the step's first trade.
+  trigger?: TradeTrigger;
+  allocationBefore?: number;
+  // What the step's trades made against skipping them: the units they moved, valued at the next trading step's
+  // prices (or the last step's), less the cash they cost. Carry and tax are left out.
+  tradePnl?: number;
+  tradeAmount?: number;
+  // Every execution cost of the step's trades, commission included.
+  fee?: number;
+  // Per asset, the price the trade filled at after spread and slippage; null for assets not traded.
+  fillPrices?: (number | null)[];
+  // Gains realized by the step's sells (all assets) and the tax paid on them.
+  realizedGain?: number;
+  taxPaid?: number;
+  // Money added (positive) or withdrawn (negative) on this step, per portfolio.
+  cashFlow?: number;
+  hodlCashFlow?: number;
+  // Set on the step buy & hold was force-liquidated.
+  hodlLiquidated?: boolean;
+  // The strategy's carry for this step; `borrowCost` is interest paid, as a positive amount.
+  cashInterest: number;
+  assetIncome: number;
+  borrowCost: number;
+}
+
+// Ratios are null when undefined for the run (e.g. zero volatility or no drawdown).
+export interface PerformanceMetrics {
+  cagr: number;
+  annualVolatility: number;
+  sharpe: number | null;
+  sortino: number | null;
+  calmar: number | null;
+  longestDrawdownDays: number;
+  // Days from the deepest trough back to the previous peak; null if never recovered.
+  recoveryDays: number | null;
+  turnover: number;
+  feeDragBps: number;
+  trackingError: number;
+  informationRatio: number | null;
+}
+
+// Returns compounded over only the days spent in one regime.
+export interface RegimeStats {
+  regime: number;
+  name: string;
+  days: number;
+  strategyReturn: number;
+  hodlReturn: number;
+  alpha: number;
+}
+
+// Trailing-window statistics at one step. Returns exclude cash flows; volatility is annualized.
+export interface RollingMetrics {
+  strategyReturn: number;
+  hodlReturn: number;
+  alpha: number;
+  strategyVolatility: number;
+  hodlVolatility: number;
+}
+
+// Annualized mean and volatility of daily log returns, with their skew and excess kurtosis.
+export interface ReturnMoments {
+  count: number;
+  mean: number;
+  volatility: number;
+  skew: number;
+  kurtosis: number;
+}
+
+export interface BootstrapMoments {
+  source: ReturnMoments;
+  generated: ReturnMoments;
+}
+
+// Execution costs over a whole run; they add up to `totalFees`.
+export interface ExecutionCosts {
+  commission: number;
+  fixedFees: number;
+  spread: number;
+  slippage: number;
+}
+
+// Realized gains and taxes over a run, plus what selling everything at the final price would cost in tax.
+export interface TaxSummary {
+  realizedShortTerm: number;
+  realizedLongTerm: number;
+  taxesPaid: number;
+  // Tax on liquidating every remaining lot at the final price, after unused losses.
+  unrealizedLiability: number;
+  // Final equity, and its return, after paying that liquidation tax.
+  afterTaxValue: number;
+  afterTaxReturn: number;
+}
+
+export interface CashFlowSummary {
+  contributions: number;
+  withdrawals: number;
+  // Growth with the flows taken out, chained step by step.
+  timeWeightedReturn: number;
+  // Annual rate that discounts the start, every flow and the final value to zero; null if none could be found.
+  moneyWeightedReturn: number | null;
+}
+
+// Forced liquidations on margin breaches over a whole run, and when (if ever) equity was wiped out.
+export interface MarginSummary {
+  liquidations: number;
+  // First step equity reached zero. The portfolio stays closed after it: no trades and no further cash flows.
+  wipedOutDay: number | null;
+}
+
+// Alpha (strategy minus buy & hold return) split into parts that add up to it, found by re-running the path
+// without execution costs and as a fixed mix at the strategy's average target weight.
+export interface AlphaAttribution {
+  hodlReturn: number;
+  // Buy & hold at the average target weight against buy & hold at `targetAllocation`; zero for the fixed mode.
+  exposure: number;
+  // The cost-free fixed mix against buy & hold at the same weight.
+  rebalancingPremium: number;
+  // The cost-free strategy against that fixed mix: what moving the target added. Zero for the fixed mode.
+  timing: number;
+  // Total fees as a share of initial capital, negated.
+  costDrag: number;
+  // The remainder, e.g. fees compounding and nudging later trades.
+  other: number;
+  strategyReturn: number;
+  averageTarget: number;
+  // The fixed mix's annual log growth over its holdings' own log growth at the same weights, realized and what
+  // continuous rebalancing earns in theory when every asset is a GBM (null otherwise, and for imported data).
+  realizedPremiumRate: number | null;
+  theoreticalPremiumRate: number | null;
+}
+
+// Carry accrued over a whole run.
+export interface CarryTotals {
+  cashInterest: number;
+  assetIncome: number;
+  borrowCost: number;
+}
+
+export interface SimulationResult {
+  seed: number;
+  data: StepData[];
+  // Band and calendar rebalances; flow and liquidation trades are in the ledger but not counted here.
+  totalRebalances: number;
+  totalFees: number;
+  // Time-weighted, so cash flows do not count as returns; without flows this is simply final / initial - 1.
+  hodlReturn: number;
+  strategyReturn: number;
+  maxDrawdownHodl: number;
+  maxDrawdownStrategy: number;
+  metrics: {
+    strategy: PerformanceMetrics;
+    hodl: PerformanceMetrics;
+  };
+  costs: ExecutionCosts;
+  tax: {
+    strategy: TaxSummary;
+    hodl: TaxSummary;
+  };
+  carry: {
+    strategy: CarryTotals;
+    hodl: CarryTotals;
+  };
+  cashFlows: {
+    strategy: CashFlowSummary;
+    hodl: CashFlowSummary;
+  };
+  margin: {
+    strategy: MarginSummary;
+    hodl: MarginSummary;
+  };
+  // Present when the path came from a regime-switching model.
+  regimeStats?: RegimeStats[];
+  // Present on single runs that asked for it.
+  attribution?: AlphaAttribution;
+}
+
+export interface PriceBar {
+  date: string;
+  open?: number;
+  high?: number;
+  low?: number;
+  close: number;
+}
+
+// Intraday bars for one asset, one entry per step; the closes are the price path itself.
+export interface OhlcBars {
+  open: number[];
+  high: number[];
+  low: number[];
+}
+
+export interface SeriesSummary {
+  startDate: string;
+  endDate: string;
+  observations: number;
+  missingDays: number;
+  droppedRows: number;
+  duplicateRows: number;
+  hasOhlc: boolean;
+  periodsPerYear: number;
+  annualVolatility: number;
+  annualDrift: number;
+}
+
+// A cleaned historical series; when set it replaces the generated path for single runs.
+export interface ImportedSeries {
+  name: string;
+  bars: PriceBar[];
+  summary: SeriesSummary;
+}
+
+// Everything needed to reproduce a single run. `imported` is set when the run used an imported price series.
+export interface RunBundle {
+  format: 'quantsim-run';
+  version: number;
+  exportedAt: string;
+  market: MarketConfig;
+  strategy: StrategyConfig;
+  imported: ImportedSeries | null;
+  pricePaths: number[][];
+  summary: Omit<SimulationResult, 'data'>;
+}
+
+// What a shared link can carry. Imported data is too large for a URL, so only a reference to it is kept.
+export interface ImportedSeriesRef {
+  name: string;
+  startDate: string;
+  endDate: string;
+  observations: number;
+}
+
+export interface SharedScenario {
+  market: MarketConfig;
+  strategies: NamedStrategy[];
+  preset: MarketPreset | null;
+  importedRef: ImportedSeriesRef | null;
+}
+
+export interface DistributionSummary {
+  mean: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+export interface EquityBand {
+  day: number;
+  outer: [number, number];
+  inner: [number, number];
+  median: number;
+  hodlMedian: number;
+}
+
+export interface MonteCarloResult {
+  seed: number;
+  runs: number;
+  winRate: number;
+  alpha: DistributionSummary;
+  maxDrawdownStrategy: DistributionSummary;
+  maxDrawdownHodl: DistributionSummary;
+  fees: DistributionSummary;
+  trades: DistributionSummary;
+  alphaHistogram: HistogramBin[];
+  equityBands: EquityBand[];
+  // Pooled over every generated path of the first bootstrapped asset; null when no asset bootstraps.
+  bootstrapMoments: BootstrapMoments | null;
+  // Each part averaged over the paths; null unless the run asked for it.
+  attribution: AlphaAttribution | null;
+}
+
+export interface RunControl {
+  onProgress?: (fraction: number) => void;
+  isCancelled?: () => boolean;
+  chunkSize?: number;
+}
+
+// Numeric strategy fields a parameter sweep can vary.
+export type SweepField = 'rebalanceThreshold' | 'rebalanceFrequency' | 'transactionFeeRate' | 'indicatorPeriod' | 'adxThreshold' | 'minAllocation' | 'maxAllocation';
+
+export interface SweepAxis {
+  field: SweepField;
+  from: number;
+  to: number;
+  step: number;
+}
+
+export interface SweepConfig {
+  x: SweepAxis;
+  y: SweepAxis | null;
+  // 'current' reuses the path on screen (imported data included); 'seeded' averages over `paths` Monte Carlo paths.
+  pathMode: 'current' | 'seeded';
+  paths: number;
+}
+
+export interface SweepCell {
+  x: number;
+  y: number | null;
+  alpha: number;
+  sharpe: number | null;
+  maxDrawdown: number;
+  trades: number;
+}
+
+export interface SweepResult {
+  config: SweepConfig;
+  xValues: number[];
+  yValues: number[];
+  // Row-major: every x value for the first y value, then the next row.
+  cells: SweepCell[];
+}
+
+// --- 2. Worker Protocol ---
+
+export type WorkerRequest =
+  // Attribution re-runs each path without costs, so only the strategy at `attributeIndex` (or none) and opted-in
+  // Monte Carlo runs pay for it.
+  | { id: number; kind: 'single'; market: MarketConfig; strategies: StrategyConfig[]; imported: ImportedSeries | null; attributeIndex: number | null }
+  | { id: number; kind: 'monteCarlo'; market: MarketConfig; strategy: StrategyConfig; runs: number; attribute: boolean }
+  | { id: number; kind: 'sweep'; market: MarketConfig; strategy: StrategyConfig; config: SweepConfig; imported: ImportedSeries | null }
+  | { id: number; kind: 'cancel' };
+
+export type WorkerResponse =
+  | { id: number; kind: 'progress'; progress: number }
+  | { id: number; kind: 'single'; pricePaths: number[][]; volatilityPaths: number[][] | null; results: SimulationResult[] }
+  | { id: number; kind: 'monteCarlo'; result: MonteCarloResult }
+  | { id: number; kind: 'sweep'; result: SweepResult }
+  | { id: number; kind: 'cancelled' }
+  | { id: number; kind: 'error'; message: string };
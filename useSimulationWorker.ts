@@ -0,0 +1,144 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { MarketConfig, StrategyConfig, SimulationResult, MonteCarloResult, SweepConfig, SweepResult, ImportedSeries, WorkerRequest, WorkerResponse } from './types';
+
+// One result per compared strategy, in the order they were sent, all on the same path.
+export interface SingleRun {
+  pricePaths: number[][];
+  volatilityPaths: number[][] | null;
+  results: SimulationResult[];
+}
+
+// Batch results remember the inputs they were run with, so the UI can tell when they have gone stale.
+export interface MonteCarloRun {
+  result: MonteCarloResult;
+  market: MarketConfig;
+  strategy: StrategyConfig;
+}
+
+export interface SweepRun {
+  result: SweepResult;
+  market: MarketConfig;
+  strategy: StrategyConfig;
+}
+
+type BatchKind = 'monteCarlo' | 'sweep';
+
+interface ActiveBatch {
+  id: number;
+  market: MarketConfig;
+  strategy: StrategyConfig;
+}
+
+// Owns the simulation worker. Every request gets an id; responses to anything but the latest request of
+// its kind are dropped, so a slow stale run can never overwrite a newer one.
+export const useSimulationWorker = () => {
+  const workerRef = useRef<Worker | null>(null);
+  const nextId = useRef(1);
+  const latestSingleId = useRef(0);
+  const activeBatches = useRef<Partial<Record<BatchKind, ActiveBatch>>>({});
+
+  const [singleRun, setSingleRun] = useState<SingleRun | null>(null);
+  const [isSimulating, setIsSimulating] = useState(false);
+  const [mcRun, setMcRun] = useState<MonteCarloRun | null>(null);
+  const [sweepRun, setSweepRun] = useState<SweepRun | null>(null);
+  const [progress, setProgress] = useState<Partial<Record<BatchKind, number>>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const setBatchProgress = (kind: BatchKind, value: number | null) =>
+    setProgress(prev => {
+      const next = { ...prev };
+      if (value === null) delete next[kind];
+      else next[kind] = value;
+      return next;
+    });
+
+  useEffect(() => {
+    const worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      const msg = e.data;
+      if (msg.id === latestSingleId.current) {
+        if (msg.kind === 'single') {
+          setSingleRun({ pricePaths: msg.pricePaths, volatilityPaths: msg.volatilityPaths, results: msg.results });
+          setError(null);
+        } else if (msg.kind === 'error') {
+          setError(msg.message);
+        }
+        setIsSimulating(false);
+        return;
+      }
+      const kind = (Object.keys(activeBatches.current) as BatchKind[]).find(k => activeBatches.current[k]?.id === msg.id);
+      const batch = kind && activeBatches.current[kind];
+      if (!kind || !batch) return;
+      if (msg.kind === 'progress') {
+        setBatchProgress(kind, msg.progress);
+        return;
+      }
+      if (msg.kind === 'monteCarlo') {
+        setMcRun({ result: msg.result, market: batch.market, strategy: batch.strategy });
+        setError(null);
+      } else if (msg.kind === 'sweep') {
+        setSweepRun({ result: msg.result, market: batch.market, strategy: batch.strategy });
+        setError(null);
+      } else if (msg.kind === 'error') {
+        setError(msg.message);
+      }
+      delete activeBatches.current[kind];
+      setBatchProgress(kind, null);
+    };
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  const post = (request: WorkerRequest) => workerRef.current?.postMessage(request);
+
+  const simulate = useCallback((market: MarketConfig, strategies: StrategyConfig[], imported: ImportedSeries | null = null, attributeIndex: number | null = null) => {
+    const id = nextId.current++;
+    latestSingleId.current = id;
+    setIsSimulating(true);
+    post({ id, kind: 'single', market, strategies, imported, attributeIndex });
+  }, []);
+
+  const cancelBatch = useCallback((kind: BatchKind) => {
+    const batch = activeBatches.current[kind];
+    if (!batch) return;
+    post({ id: batch.id, kind: 'cancel' });
+    delete activeBatches.current[kind];
+    setBatchProgress(kind, null);
+  }, []);
+
+  // Starting a batch cancels any batch of the same kind still in flight.
+  const startBatch = useCallback((kind: BatchKind, market: MarketConfig, strategy: StrategyConfig, toRequest: (id: number) => WorkerRequest) => {
+    cancelBatch(kind);
+    const id = nextId.current++;
+    activeBatches.current[kind] = { id, market, strategy };
+    setBatchProgress(kind, 0);
+    post(toRequest(id));
+  }, [cancelBatch]);
+
+  const runMonteCarlo = useCallback((market: MarketConfig, strategy: StrategyConfig, runs: number, attribute = false) =>
+    startBatch('monteCarlo', market, strategy, id => ({ id, kind: 'monteCarlo', market, strategy, runs, attribute })), [startBatch]);
+
+  const runSweep = useCallback((market: MarketConfig, strategy: StrategyConfig, config: SweepConfig, imported: ImportedSeries | null = null) =>
+    startBatch('sweep', market, strategy, id => ({ id, kind: 'sweep', market, strategy, config, imported })), [startBatch]);
+
+  const cancelMonteCarlo = useCallback(() => cancelBatch('monteCarlo'), [cancelBatch]);
+  const cancelSweep = useCallback(() => cancelBatch('sweep'), [cancelBatch]);
+
+  return {
+    singleRun,
+    isSimulating,
+    mcRun,
+    mcProgress: progress.monteCarlo ?? null,
+    sweepRun,
+    sweepProgress: progress.sweep ?? null,
+    error,
+    simulate,
+    runMonteCarlo,
+    cancelMonteCarlo,
+    runSweep,
+    cancelSweep
+  };
+};